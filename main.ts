@@ -12,21 +12,337 @@ import {
 	TextComponent,
 	TextAreaComponent,
 	ExtraButtonComponent,
-	FuzzySuggestModal, FuzzyMatch
+	FuzzySuggestModal, FuzzyMatch,
+	ItemView,
+	WorkspaceLeaf,
+	MarkdownRenderer,
+	DropdownComponent,
+	TAbstractFile,
+	TFolder,
+	Vault,
+	DataAdapter,
+	normalizePath,
+	getAllTags,
+	moment,
+	parseYaml,
+	stringifyYaml,
+	debounce,
+	arrayBufferToBase64,
+	base64ToArrayBuffer
 } from 'obsidian';
 
+// Options passed through to Ollama. keep_alive is sent at the top level of the request, the rest under "options"
+interface GenerationOptions {
+	temperature?: number;
+	top_p?: number;
+	seed?: number;
+	num_ctx?: number;
+	num_predict?: number;
+	stop?: string[];
+	keep_alive?: string;
+	// JSON schema the response has to follow, set for prompts with structured output
+	format?: Record<string, unknown>;
+	// Base64 encoded images sent along with the prompt, set for prompts that include the images of the note
+	images?: string[];
+}
+
+// How a structured JSON response is turned into Markdown
+type StructuredRenderer = 'tasks' | 'frontmatter' | 'table';
+
+const STRUCTURED_RENDERERS: Record<StructuredRenderer, string> = {
+	'tasks': 'Task list',
+	'frontmatter': 'Frontmatter properties',
+	'table': 'Markdown table'
+};
+
+// Schemas used when a structured prompt does not define its own
+const DEFAULT_STRUCTURED_SCHEMAS: Record<StructuredRenderer, Record<string, unknown>> = {
+	'tasks': {
+		type: 'object',
+		properties: {
+			tasks: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						task: {type: 'string'},
+						owner: {type: 'string'},
+						due: {type: 'string', description: 'Due date as YYYY-MM-DD'}
+					},
+					required: ['task']
+				}
+			}
+		},
+		required: ['tasks']
+	},
+	'frontmatter': {
+		type: 'object',
+		properties: {
+			attendees: {type: 'array', items: {type: 'string'}},
+			decisions: {type: 'array', items: {type: 'string'}},
+			topics: {type: 'array', items: {type: 'string'}}
+		},
+		required: ['attendees', 'decisions', 'topics']
+	},
+	'table': {
+		type: 'object',
+		properties: {
+			rows: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						item: {type: 'string'},
+						details: {type: 'string'}
+					},
+					required: ['item', 'details']
+				}
+			}
+		},
+		required: ['rows']
+	}
+};
+
+interface StructuredOutput {
+	renderer: StructuredRenderer;
+	// JSON schema as text. The renderer's default schema is used when empty.
+	schema?: string;
+	// How often to ask again when the response is not valid JSON or does not match the schema
+	maxRetries?: number;
+}
+
+// Passages of other notes that are looked up in the semantic index and added to the prompt as context
+interface RetrievalSettings {
+	// How many passages are added
+	count: number;
+	// Only notes in this folder and its subfolders, e.g. past meeting notes. Empty searches the whole vault.
+	folder?: string;
+}
+
+// Where the generated output is written
+type OutputMode = 'replace-note' | 'replace-selection' | 'insert-at-cursor' | 'append-under-heading' | 'prepend' | 'new-note';
+
+const OUTPUT_MODES: Record<OutputMode, string> = {
+	'replace-note': 'Replace the note (keep the original in a callout)',
+	'replace-selection': 'Replace the selection',
+	'insert-at-cursor': 'Insert at cursor',
+	'append-under-heading': 'Append under a heading',
+	'prepend': 'Prepend to the note',
+	'new-note': 'Write to a new note'
+};
+
 interface Prompt {
 	id: string;
 	name: string;
 	body: string;
 	systemPrompt?: string;
+	model?: string;
+	options?: GenerationOptions;
+	outputMode?: OutputMode;
+	outputHeading?: string;
+	structuredOutput?: StructuredOutput;
+	// Favorites are listed in the editor context menu
+	favorite?: boolean;
+	retrieval?: RetrievalSettings;
+	outputFormat?: OutputFormat;
+	// Send the images embedded in the text to vision models
+	includeImages?: boolean;
+}
+
+// How the output of a prompt or pipeline is laid out in the note
+interface OutputFormat {
+	// Markdown the output is written as, with {{output}} standing for the response. See isKnownOutputTemplateVariable.
+	template?: string;
+	// Callout the original text is kept in when the output replaces the note
+	calloutType?: string;
+	collapsed?: boolean;
+	// Replace the note with the output alone instead of keeping the original text
+	dropOriginal?: boolean;
+	// Record the prompt, model and time of the run in the frontmatter
+	recordGeneration?: boolean;
+}
+
+// Sections that replace the note keep the heading they always had, other output modes write the output alone
+const DEFAULT_SECTION_TEMPLATE = '# AI Notes\n{{output}}';
+const DEFAULT_OUTPUT_TEMPLATE = '{{output}}';
+const DEFAULT_CALLOUT_TYPE = 'details';
+
+// Frontmatter properties recording how a note was generated
+const GENERATION_PROMPT_PROPERTY = 'ai-prompt';
+const GENERATION_MODEL_PROPERTY = 'ai-model';
+const GENERATION_DATE_PROPERTY = 'ai-generated';
+
+// Where prompts and pipelines write their output
+interface OutputSettings {
+	id: string;
+	name: string;
+	outputMode?: OutputMode;
+	outputHeading?: string;
+	outputFormat?: OutputFormat;
+}
+
+interface PipelineStep {
+	promptId: string;
+	// Whether the step processes the original text or the output of the previous step
+	input: 'original' | 'previous';
+	// Keep the step's output as its own section. The output of the last step is always kept.
+	keepOutput: boolean;
+}
+
+// A named sequence of prompts that are run one after another
+interface Pipeline {
+	id: string;
+	name: string;
+	steps: PipelineStep[];
+	outputMode?: OutputMode;
+	outputHeading?: string;
+	outputFormat?: OutputFormat;
+}
+
+function isPipeline(item: Prompt | Pipeline): item is Pipeline {
+	return 'steps' in item;
 }
 
+// Checks prompts that come from outside the plugin, i.e. imported files and notes in the prompt library
+function validatePrompt(prompt: Prompt): void {
+	if (!prompt.id || !prompt.name || !prompt.body) {
+		throw new Error("Invalid prompt format: Each prompt must have id, name, and body properties");
+	}
+	if (prompt.model !== undefined && typeof prompt.model !== 'string') {
+		throw new Error(`Invalid prompt format: "model" of prompt "${prompt.name}" must be a string`);
+	}
+	if (prompt.outputMode !== undefined && !Object.prototype.hasOwnProperty.call(OUTPUT_MODES, prompt.outputMode)) {
+		throw new Error(`Invalid prompt format: unknown output mode "${prompt.outputMode}" in prompt "${prompt.name}"`);
+	}
+	if (prompt.structuredOutput !== undefined && !Object.prototype.hasOwnProperty.call(STRUCTURED_RENDERERS, prompt.structuredOutput?.renderer)) {
+		throw new Error(`Invalid prompt format: unknown structured output renderer in prompt "${prompt.name}"`);
+	}
+	if (prompt.options !== undefined && (typeof prompt.options !== 'object' || prompt.options === null || Array.isArray(prompt.options))) {
+		throw new Error(`Invalid prompt format: "options" of prompt "${prompt.name}" must be an object`);
+	}
+	if (prompt.favorite !== undefined && typeof prompt.favorite !== 'boolean') {
+		throw new Error(`Invalid prompt format: "favorite" of prompt "${prompt.name}" must be true or false`);
+	}
+	if (prompt.retrieval !== undefined && !(typeof prompt.retrieval?.count === 'number' && prompt.retrieval.count > 0)) {
+		throw new Error(`Invalid prompt format: "retrieval" of prompt "${prompt.name}" must have a positive count`);
+	}
+	if (prompt.outputFormat !== undefined && (typeof prompt.outputFormat !== 'object' || prompt.outputFormat === null || Array.isArray(prompt.outputFormat))) {
+		throw new Error(`Invalid prompt format: "outputFormat" of prompt "${prompt.name}" must be an object`);
+	}
+	if (prompt.outputFormat?.template !== undefined && !prompt.outputFormat.template.includes('{{output}}')) {
+		throw new Error(`Invalid prompt format: the output template of prompt "${prompt.name}" must contain {{output}}`);
+	}
+	if (prompt.includeImages !== undefined && typeof prompt.includeImages !== 'boolean') {
+		throw new Error(`Invalid prompt format: "includeImages" of prompt "${prompt.name}" must be true or false`);
+	}
+}
+
+// Reads the frontmatter from the note text, which unlike the metadata cache is never out of date
+function parseFrontmatter(text: string): Record<string, unknown> {
+	const match = FRONTMATTER_PATTERN.exec(text);
+	const properties = match ? parseYaml(match[0].slice('---\n'.length, match[0].lastIndexOf('\n---'))) ?? {} : {};
+	if (typeof properties !== 'object' || Array.isArray(properties)) {
+		throw new Error("The frontmatter is not a list of properties");
+	}
+	return properties;
+}
+
+// A prompt note keeps the prompt body as its content and everything else in the frontmatter
+function parsePromptFile(text: string, fileName: string): Prompt {
+	const match = FRONTMATTER_PATTERN.exec(text);
+	let properties: Record<string, unknown>;
+	try {
+		properties = parseFrontmatter(text);
+	} catch (error) {
+		throw new Error(`Invalid frontmatter in prompt "${fileName}"`);
+	}
+
+	// The file name stands in for a missing id or name
+	const prompt: Prompt = {
+		...properties,
+		id: String(properties.id ?? fileName),
+		name: String(properties.name ?? fileName),
+		body: text.slice(match ? match[0].length : 0).trim()
+	};
+	validatePrompt(prompt);
+	return prompt;
+}
+
+function formatPromptFile(prompt: Prompt): string {
+	const {body, ...properties} = prompt;
+	return `---\n${stringifyYaml(properties).trimEnd()}\n---\n\n${body}\n`;
+}
+
+type LLMProvider = 'ollama' | 'openai';
+
+const LLM_PROVIDERS: Record<LLMProvider, string> = {
+	'ollama': 'Ollama',
+	'openai': 'OpenAI-compatible (LM Studio, llama.cpp, ...)'
+};
+
+// Processes notes in the background when they are created or modified and match all set conditions
+interface WatchRule {
+	id: string;
+	// Notes in this folder and its subfolders
+	folder: string;
+	tag: string;
+	// Frontmatter property that has to be true, e.g. "transcript: true"
+	property: string;
+	// Prompt or pipeline to run
+	promptId: string;
+	enabled: boolean;
+}
+
+interface WatchLogEntry {
+	time: number;
+	path: string;
+	promptName: string;
+	status: BatchItemStatus;
+	message?: string;
+}
+
+// Frontmatter property listing the prompts a note was automatically processed with, so it is not processed again
+const WATCH_PROCESSED_PROPERTY = 'ai-processed';
+
+// Seconds a note has to stay unchanged before it is processed, so notes that are still being written are not picked up
+const WATCH_DELAY = 5;
+
+const MAX_WATCH_LOG_ENTRIES = 100;
+
 interface OllamaTranscriptProcessorSettings {
 	prompts: Prompt[];
+	pipelines: Pipeline[];
 	defaultModel: string;
+	provider: LLMProvider;
 	ollamaHost: string;
+	ollamaApiKey: string;
+	openaiBaseUrl: string;
+	openaiApiKey: string;
+	openaiContextLength: number;
+	autoContextSize: boolean;
+	maxContextSize: number;
 	lastUsedPromptId: string | null;
+	streamResponses: boolean;
+	keepPartialOnCancel: boolean;
+	normalizeTranscripts: boolean;
+	chunkingEnabled: boolean;
+	chunkSize: number;
+	chunkOverlap: number;
+	combinePrompt: string;
+	newNoteFolder: string;
+	promptFolder: string;
+	watchEnabled: boolean;
+	watchRules: WatchRule[];
+	watchLog: WatchLogEntry[];
+	requestTimeout: number;
+	maxRetries: number;
+	showConnectionStatus: boolean;
+	embeddingModel: string;
+	autoUpdateIndex: boolean;
+	indexExcludedFolders: string[];
+	redactionEnabled: boolean;
+	redactionCategories: RedactionCategory[];
+	redactedNames: string[];
 }
 
 const DEFAULT_SETTINGS: OllamaTranscriptProcessorSettings = {
@@ -38,15 +354,57 @@ const DEFAULT_SETTINGS: OllamaTranscriptProcessorSettings = {
 			systemPrompt: 'You are a professional note-taker with expertise in creating clear, organized summaries of meetings.'
 		}
 	],
+	pipelines: [],
 	defaultModel: 'gemma:3b',
+	provider: 'ollama',
 	ollamaHost: 'http://localhost:11434',
-	lastUsedPromptId: null
+	ollamaApiKey: '',
+	openaiBaseUrl: 'http://localhost:1234/v1',
+	openaiApiKey: '',
+	openaiContextLength: 8192,
+	autoContextSize: true,
+	maxContextSize: 32768,
+	lastUsedPromptId: null,
+	streamResponses: true,
+	keepPartialOnCancel: false,
+	normalizeTranscripts: true,
+	chunkingEnabled: true,
+	chunkSize: 3000,
+	chunkOverlap: 200,
+	combinePrompt: 'The following text contains notes that were generated separately from consecutive parts of one long transcript. Merge them into a single coherent set of notes. Remove duplicated points, keep every decision and action item, and organize the result logically with clear headings.',
+	newNoteFolder: '',
+	promptFolder: '',
+	watchEnabled: false,
+	watchRules: [],
+	watchLog: [],
+	requestTimeout: 300,
+	maxRetries: 3,
+	showConnectionStatus: true,
+	embeddingModel: 'nomic-embed-text',
+	autoUpdateIndex: false,
+	indexExcludedFolders: [],
+	redactionEnabled: false,
+	redactionCategories: ['email', 'phone', 'account', 'name'],
+	redactedNames: []
 }
 
 interface OllamaModel {
 	name: string;
 	modified_at: string;
 	size: number;
+	details?: {
+		family?: string;
+		parameter_size?: string;
+		quantization_level?: string;
+	};
+}
+
+// Progress reported by /api/pull while a model is downloaded
+interface OllamaPullStatus {
+	status: string;
+	total?: number;
+	completed?: number;
+	error?: string;
 }
 
 interface OllamaResponse {
@@ -54,29 +412,236 @@ interface OllamaResponse {
 	created_at: string;
 	response: string;
 	done: boolean;
+	error?: string;
+	// Set on the final response. Durations are in nanoseconds.
+	prompt_eval_count?: number;
+	eval_count?: number;
+	eval_duration?: number;
+	total_duration?: number;
+}
+
+// Token counts and timings of a response, as far as the server reports them. Durations are in milliseconds.
+interface GenerationStats {
+	promptTokens?: number;
+	responseTokens?: number;
+	// Time spent generating the response, without loading the model and reading the prompt
+	generationTime?: number;
+	totalTime: number;
+}
+
+interface GenerationResult {
+	text: string;
+	stats: GenerationStats;
+}
+
+interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+interface OllamaChatResponse {
+	model: string;
+	created_at: string;
+	message?: ChatMessage;
+	done: boolean;
+	error?: string;
 }
 
 interface OllamaModelInfo {
-	parameters: {
-		context_length: number;
-		[key: string]: any;
-	};
+	// Modelfile parameters as text, one "name value" pair per line
+	parameters?: string;
+	model_info?: Record<string, unknown>;
+	// e.g. "completion", "vision" and "embedding"
+	capabilities?: string[];
+	[key: string]: unknown;
+}
+
+// What a model can take in and how Ollama sizes its context window
+interface OllamaContextInfo {
+	// Context length the model was trained for, null when /api/show does not report it
+	maximum: number | null;
+	// num_ctx used when a request does not set one
+	default: number;
+	// Whether the model takes images, null when /api/show does not list capabilities
+	vision: boolean | null;
+}
+
+// How requests to the model server are timed out and retried
+interface RequestConfig {
+	// Seconds to wait for the server to start responding, 0 waits forever
+	timeout: number;
+	// Retries of requests that failed for a transient reason
+	maxRetries: number;
+}
+
+interface ConnectionStatus {
+	// Not every server reports its version
+	version: string | null;
+	latency: number;
+}
+
+// How the context window of Ollama requests is sized
+interface ContextConfig {
+	// Set num_ctx to fit the input when the prompt does not set it
+	autoContextSize: boolean;
+	// Upper limit for the automatic num_ctx, larger windows need more memory
+	maxContextSize: number;
+}
+
+// num_ctx Ollama uses when neither the request nor the Modelfile sets one
+const OLLAMA_DEFAULT_CONTEXT_SIZE = 2048;
+
+// Tokens kept free for the response when the prompt does not limit its length
+const RESPONSE_TOKEN_RESERVE = 1024;
+
+const MAX_TOKEN_COUNT_CACHE_ENTRIES = 200;
+
+// Rough number of tokens an image takes up in the context window of common vision models
+const IMAGE_TOKEN_ESTIMATE = 768;
+
+// Delay before the first retry, doubled for every further attempt
+const RETRY_BASE_DELAY = 1000;
+
+// How often the status bar indicator checks whether the server is reachable
+const CONNECTION_CHECK_INTERVAL = 60 * 1000;
+
+// Common interface of the backends that run the models
+abstract class LLMService {
+	protected readonly requestConfig: RequestConfig;
+
+	constructor(requestConfig: RequestConfig) {
+		this.requestConfig = requestConfig;
+	}
+
+	// Sends a request, retrying while the server is unreachable (e.g. still starting) or reports a server error
+	protected async request(url: string, init: RequestInit = {}, retry = true): Promise<Response> {
+		const maxRetries = retry ? this.requestConfig.maxRetries : 0;
+
+		for (let attempt = 0; ; attempt++) {
+			let response: Response;
+			try {
+				response = await fetchWithTimeout(url, init, this.requestConfig.timeout);
+			} catch (error) {
+				// Cancellations and timeouts are not retried, only failed connections
+				if (isAbortError(error) || error instanceof RequestTimeoutError || attempt >= maxRetries) {
+					throw error;
+				}
+				await sleep(RETRY_BASE_DELAY * 2 ** attempt, init.signal ?? undefined);
+				continue;
+			}
+
+			// 5xx covers errors while a model is loading, 429 a busy server
+			const transient = response.status >= 500 || response.status === 429;
+			if (!transient || attempt >= maxRetries) {
+				return response;
+			}
+			await sleep(RETRY_BASE_DELAY * 2 ** attempt, init.signal ?? undefined);
+		}
+	}
+
+	// Checks that the server is reachable, reporting its version and how long it took to answer
+	abstract testConnection(): Promise<ConnectionStatus>;
+
+	// Without retry it fails right away when the server is unreachable, e.g. while a URL is being typed
+	abstract getModels(retry?: boolean): Promise<string[]>;
+
+	// Size of the context window in tokens. An explicit num_ctx limits it below the model's maximum.
+	abstract getContextLength(model: string, options?: GenerationOptions): Promise<number>;
+
+	// Generates the full response at once, together with its token counts and timings
+	abstract generateTextWithStats(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<GenerationResult>;
+
+	async generateText(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<string> {
+		return (await this.generateTextWithStats(model, prompt, systemPrompt, options, signal)).text;
+	}
+
+	// Streams the response token by token, returning the full text once the response is complete
+	abstract generateTextStream(model: string, prompt: string, systemPrompt: string, onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string>;
+
+	// Whether the model takes images, null when the server does not tell
+	async supportsImages(model: string): Promise<boolean | null> {
+		return null;
+	}
+
+	// Embedding vectors of the texts, in the same order, for the semantic index
+	abstract embed(model: string, texts: string[], signal?: AbortSignal): Promise<number[][]>;
+
+	// Streams the assistant's reply to a conversation
+	abstract chatStream(model: string, messages: ChatMessage[], onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string>;
+
+	// Simple token count estimation - roughly 4 characters per token
+	estimateTokenCount(text: string): number {
+		return Math.ceil(text.length / 4);
+	}
+
+	// Number of tokens the prompt and system prompt take up. Estimated unless the backend can count them.
+	async countPromptTokens(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<number> {
+		return this.estimatePromptTokens(prompt, systemPrompt, options);
+	}
+
+	// Number of tokens as far as it is known without sending the prompt, e.g. for the request preview
+	async getKnownPromptTokens(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions): Promise<number> {
+		return this.estimatePromptTokens(prompt, systemPrompt, options);
+	}
+
+	protected estimatePromptTokens(prompt: string, systemPrompt: string, options?: GenerationOptions): number {
+		const imageTokens = (options?.images?.length ?? 0) * IMAGE_TOKEN_ESTIMATE;
+		return this.estimateTokenCount(prompt + (systemPrompt ? "\n" + systemPrompt : "")) + imageTokens;
+	}
+
+	// Checks that the input fits into the context window, returning the options to send it with
+	protected async prepareContextWindow(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<GenerationOptions | undefined> {
+		const contextLength = await this.getContextLength(model, options);
+		const tokens = await this.countPromptTokens(model, prompt, systemPrompt, options, signal);
+		if (tokens >= contextLength) {
+			throw new Error(`Input exceeds model's context window (${tokens} tokens > ${contextLength} tokens). Please reduce the size of your input.`);
+		}
+		return options;
+	}
 
-	[key: string]: any;
+	// JSON headers, with the API key as bearer token if one is set
+	protected getHeaders(apiKey: string): Record<string, string> {
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+		};
+		if (apiKey) {
+			headers['Authorization'] = `Bearer ${apiKey}`;
+		}
+		return headers;
+	}
 }
 
-class OllamaService {
+class OllamaService extends LLMService {
 	private readonly baseUrl: string;
+	// Only needed for Ollama hosts behind an authenticating proxy
+	private readonly apiKey: string;
+	private readonly contextConfig: ContextConfig;
+	private readonly contextInfo = new Map<string, OllamaContextInfo>();
+	// Token counts by hash of the model and input, since counting means evaluating the whole prompt
+	private readonly tokenCounts = new Map<string, number>();
 
-	constructor(baseUrl: string) {
+	constructor(baseUrl: string, apiKey: string, requestConfig: RequestConfig, contextConfig: ContextConfig) {
+		super(requestConfig);
 		this.baseUrl = baseUrl;
+		this.apiKey = apiKey;
+		this.contextConfig = contextConfig;
+	}
+
+	async testConnection(): Promise<ConnectionStatus> {
+		const start = Date.now();
+		const response = await this.request(`${this.baseUrl}/api/version`, {headers: this.getHeaders(this.apiKey)}, false);
+		if (!response.ok) {
+			throw new Error(await getResponseError(response, 'Failed to connect'));
+		}
+		const data = await response.json();
+		return {version: data.version ?? null, latency: Date.now() - start};
 	}
 
-	async getModels(): Promise<string[]> {
+	async getModels(retry = true): Promise<string[]> {
 		try {
-			const response = await fetch(`${this.baseUrl}/api/tags`);
+			const response = await this.request(`${this.baseUrl}/api/tags`, {headers: this.getHeaders(this.apiKey)}, retry);
 			if (!response.ok) {
-				throw new Error(`Failed to fetch models: ${response.statusText}`);
+				throw new Error(await getResponseError(response, 'Failed to fetch models'));
 			}
 			const data = await response.json();
 			return data.models.map((model: OllamaModel) => model.name);
@@ -86,399 +651,5782 @@ class OllamaService {
 		}
 	}
 
-	async getModelInfo(model: string): Promise<OllamaModelInfo> {
+	// Installed models with their size and details
+	async listModels(): Promise<OllamaModel[]> {
+		try {
+			const response = await this.request(`${this.baseUrl}/api/tags`, {headers: this.getHeaders(this.apiKey)});
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to fetch models'));
+			}
+			const data = await response.json();
+			return data.models as OllamaModel[];
+		} catch (error) {
+			console.error("Error fetching Ollama models:", error);
+			throw error;
+		}
+	}
+
+	async getMaxContextLength(model: string): Promise<number | null> {
+		return getMaxContextLength(await this.getModelInfo(model));
+	}
+
+	// Downloads a model, reporting the progress of each layer as it arrives
+	async pullModel(model: string, onStatus: (status: OllamaPullStatus) => void, signal?: AbortSignal): Promise<void> {
 		try {
-			const response = await fetch(`${this.baseUrl}/api/show`, {
+			const response = await this.request(`${this.baseUrl}/api/pull`, {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(this.apiKey),
 				body: JSON.stringify({
-					name: model
+					model: model,
+					stream: true
 				}),
+				signal
 			});
 
 			if (!response.ok) {
-				throw new Error(`Failed to fetch model info: ${response.statusText}`);
+				throw new Error(await getResponseError(response, 'Failed to pull model'));
 			}
 
-			const data = await response.json() as OllamaModelInfo;
-			return data;
+			await readNdjson<OllamaPullStatus>(response, status => {
+				if (status.error) {
+					throw new Error(status.error);
+				}
+				onStatus(status);
+			});
 		} catch (error) {
-			console.error(`Error fetching info for model ${model}:`, error);
+			if (!isAbortError(error)) {
+				console.error(`Error pulling model ${model}:`, error);
+			}
 			throw error;
 		}
 	}
 
-	// Simple token count estimation - roughly 4 characters per token
-	estimateTokenCount(text: string): number {
-		return Math.ceil(text.length / 4);
-	}
-
-	async generateText(model: string, prompt: string, systemPrompt: string): Promise<string> {
+	async deleteModel(model: string): Promise<void> {
 		try {
-			// Get model info to check context window size
-			const modelInfo = await this.getModelInfo(model);
-			const contextLength = modelInfo.parameters.context_length;
-
-			// Estimate token count for prompt and system prompt
-			const combinedText = prompt + (systemPrompt ? "\n" + systemPrompt : "");
-			const estimatedTokens = this.estimateTokenCount(combinedText);
+			const response = await this.request(`${this.baseUrl}/api/delete`, {
+				method: 'DELETE',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify({
+					model: model
+				}),
+			});
 
-			// Check if estimated tokens exceed context window
-			if (estimatedTokens >= contextLength) {
-				throw new Error(`Input exceeds model's context window (${estimatedTokens} tokens > ${contextLength} tokens). Please reduce the size of your input.`);
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to delete model'));
 			}
+		} catch (error) {
+			console.error(`Error deleting model ${model}:`, error);
+			throw error;
+		}
+	}
 
-			const response = await fetch(`${this.baseUrl}/api/generate`, {
+	async getModelInfo(model: string): Promise<OllamaModelInfo> {
+		try {
+			const response = await this.request(`${this.baseUrl}/api/show`, {
 				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-				},
+				headers: this.getHeaders(this.apiKey),
 				body: JSON.stringify({
-					model: model,
-					prompt: prompt,
-					system: systemPrompt,
-					stream: false
+					name: model
 				}),
 			});
 
 			if (!response.ok) {
-				throw new Error(`Failed to generate text: ${response.statusText}`);
+				throw new Error(await getResponseError(response, 'Failed to fetch model info'));
 			}
 
-			const data = await response.json() as OllamaResponse;
-			return data.response;
+			const data = await response.json() as OllamaModelInfo;
+			return data;
 		} catch (error) {
-			console.error("Error generating text with Ollama:", error);
+			console.error(`Error fetching info for model ${model}:`, error);
 			throw error;
 		}
 	}
-}
 
-export default class OllamaTranscriptProcessor extends Plugin {
-	settings: OllamaTranscriptProcessorSettings;
-	ollamaService: OllamaService;
+	// Looked up once per model, as every request needs it
+	private async getContextInfo(model: string): Promise<OllamaContextInfo> {
+		let info = this.contextInfo.get(model);
+		if (!info) {
+			const modelInfo = await this.getModelInfo(model);
+			const numCtx = modelInfo.parameters?.match(/^num_ctx\s+(\d+)/m);
+			info = {
+				maximum: getMaxContextLength(modelInfo),
+				default: numCtx ? parseInt(numCtx[1]) : OLLAMA_DEFAULT_CONTEXT_SIZE,
+				vision: modelInfo.capabilities ? modelInfo.capabilities.includes('vision') : null
+			};
+			this.contextInfo.set(model, info);
+		}
+		return info;
+	}
 
-	async onload() {
-		await this.loadSettings();
+	// Without an explicit num_ctx, Ollama uses its default window unless the plugin sizes it to the input
+	async getContextLength(model: string, options?: GenerationOptions): Promise<number> {
+		const info = await this.getContextInfo(model);
+		let contextLength = options?.num_ctx ?? info.default;
+		if (!options?.num_ctx && this.contextConfig.autoContextSize) {
+			contextLength = Math.max(contextLength, this.contextConfig.maxContextSize);
+		}
+		return info.maximum ? Math.min(info.maximum, contextLength) : contextLength;
+	}
 
-		// Initialize Ollama service
-		this.updateOllamaService();
+	async supportsImages(model: string): Promise<boolean | null> {
+		return (await this.getContextInfo(model)).vision;
+	}
 
-		// Add ribbon icon
-		const ribbonIconEl = this.addRibbonIcon('file-text', 'Process with LLM prompt', (evt: MouseEvent) => {
-			this.openPromptSelectionModal();
-		});
+	// Counts the tokens by letting Ollama evaluate the prompt. With an automatic context size the count
+	// decides num_ctx, so it is always taken. Otherwise short inputs are only estimated, as they fit either way.
+	async countPromptTokens(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<number> {
+		return (await this.measurePrompt(model, prompt, systemPrompt, options, signal)).tokens;
+	}
 
-		// Add commands
-		this.addCommand({
-			id: 'process-with-llm-prompt',
-			name: 'Process with LLM prompt...',
-			checkCallback: (checking: boolean) => {
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					if (!checking) {
-						this.openPromptSelectionModal();
-					}
-					return true;
-				}
-				return false;
-			}
-		});
+	// The count of an earlier request with the same input, or the estimate
+	async getKnownPromptTokens(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions): Promise<number> {
+		const key = await this.getTokenCountKey(model, prompt, systemPrompt, options);
+		return this.tokenCounts.get(key) ?? this.estimatePromptTokens(prompt, systemPrompt, options);
+	}
 
-		this.addCommand({
-			id: 're-run-last-prompt',
-			name: 'Re-run last prompt',
-			checkCallback: (checking: boolean) => {
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView && this.settings.lastUsedPromptId) {
-					if (!checking) {
-						const lastPrompt = this.settings.prompts.find(p => p.id === this.settings.lastUsedPromptId);
-						if (lastPrompt) {
-							this.processTranscriptWithPrompt(lastPrompt);
-						} else {
-							new Notice('Last used prompt not found. Please select a prompt first.');
-						}
-					}
-					return true;
-				}
-				return false;
-			}
-		});
+	// Ollama silently drops the start of an input that does not fit into num_ctx, so this either
+	// sizes num_ctx to the input or refuses to send it
+	protected async prepareContextWindow(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<GenerationOptions | undefined> {
+		const contextLength = await this.getContextLength(model, options);
+		const {tokens, numCtx} = await this.measurePrompt(model, prompt, systemPrompt, options, signal);
+		const autoSize = this.isAutoSized(options);
 
-		// Add settings tab
-		this.addSettingTab(new OllamaSettingTab(this.app, this));
+		if (tokens >= contextLength) {
+			const advice = autoSize
+				? 'Raise the maximum context size in the settings or split long texts into chunks.'
+				: 'Turn on the automatic context size, raise the prompt\'s num_ctx or split long texts into chunks.';
+			throw new Error(`The input has ${tokens} tokens, but the context window of ${model} is ${contextLength} tokens. Ollama would silently cut off the beginning of the text. ${advice}`);
+		}
+		return autoSize ? {...options, num_ctx: numCtx} : options;
 	}
 
-	onunload() {
-		// Clean up any resources
+	private isAutoSized(options?: GenerationOptions): boolean {
+		return !options?.num_ctx && this.contextConfig.autoContextSize;
 	}
 
-	updateOllamaService() {
-		this.ollamaService = new OllamaService(this.settings.ollamaHost);
-	}
+	// Number of tokens of the input and the num_ctx it is sent with. The tokens are counted with that
+	// same num_ctx, so that Ollama keeps the model loaded for the request instead of loading it again.
+	private async measurePrompt(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<{tokens: number, numCtx: number}> {
+		const estimate = this.estimatePromptTokens(prompt, systemPrompt, options);
+		const contextLength = await this.getContextLength(model, options);
+		const key = await this.getTokenCountKey(model, prompt, systemPrompt, options);
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		if (!this.isAutoSized(options)) {
+			if (estimate < contextLength / 2) {
+				return {tokens: estimate, numCtx: contextLength};
+			}
+			const tokens = this.tokenCounts.get(key) ?? await this.probePromptTokens(model, prompt, systemPrompt, options, contextLength, estimate, signal);
+			// Ollama cuts an input that does not fit down to num_ctx, so a count that fills the window is not the full size
+			if (tokens < contextLength) {
+				this.cacheTokenCount(key, tokens);
+			}
+			return {tokens, numCtx: contextLength};
+		}
+
+		// Start from the last count of the input, or from the estimate, and grow num_ctx while the input
+		// does not fit. Rounded up to a power of two so that similar inputs reuse the loaded model.
+		const reserve = options?.num_predict && options.num_predict > 0 ? options.num_predict : RESPONSE_TOKEN_RESERVE;
+		const cached = this.tokenCounts.get(key);
+		let numCtx = await this.fitContextSize(model, (cached ?? estimate) + reserve, contextLength);
+		if (cached !== undefined) {
+			return {tokens: cached, numCtx};
+		}
+		for (;;) {
+			const tokens = await this.probePromptTokens(model, prompt, systemPrompt, options, numCtx, estimate, signal);
+			if (tokens + reserve <= numCtx) {
+				this.cacheTokenCount(key, tokens);
+				return {tokens, numCtx};
+			}
+			if (numCtx >= contextLength) {
+				return {tokens, numCtx};
+			}
+			numCtx = await this.fitContextSize(model, tokens + reserve, contextLength);
+		}
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	private getTokenCountKey(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions): Promise<string> {
+		return hashText(JSON.stringify([model, systemPrompt, prompt, options?.images ?? []]));
 	}
 
-	openPromptSelectionModal() {
-		new PromptSelectionModal(this.app, this, (prompt) => {
-			this.processTranscriptWithPrompt(prompt);
-		}).open();
+	// Smallest power of two multiple of the model's default num_ctx that holds the tokens, at most the context length
+	private async fitContextSize(model: string, tokens: number, contextLength: number): Promise<number> {
+		const info = await this.getContextInfo(model);
+		let numCtx = info.default;
+		while (numCtx < tokens && numCtx < contextLength) {
+			numCtx *= 2;
+		}
+		return Math.min(numCtx, contextLength);
 	}
 
-	async processTranscriptWithPrompt(prompt: Prompt) {
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+	// Evaluates the prompt with the given num_ctx and generates a single token
+	private async probePromptTokens(model: string, prompt: string, systemPrompt: string, options: GenerationOptions | undefined, numCtx: number, estimate: number, signal?: AbortSignal): Promise<number> {
+		const response = await this.request(`${this.baseUrl}/api/generate`, {
+			method: 'POST',
+			headers: this.getHeaders(this.apiKey),
+			body: JSON.stringify(this.buildGenerateRequest(model, prompt, systemPrompt, true, {
+				num_ctx: numCtx,
+				num_predict: 1,
+				keep_alive: options?.keep_alive,
+				images: options?.images
+			})),
+			signal
+		});
+		if (!response.ok) {
+			throw new Error(await getResponseError(response, 'Failed to count tokens'));
+		}
+		const data = await readOllamaResponse(response);
+
+		// Ollama leaves out tokens it still has cached from an earlier request, so a count far
+		// below the estimate is not the size of the prompt
+		const tokens = data.prompt_eval_count;
+		return tokens === undefined || tokens < estimate / 4 ? estimate : tokens;
+	}
+
+	private cacheTokenCount(key: string, tokens: number): void {
+		this.tokenCounts.set(key, tokens);
+		if (this.tokenCounts.size > MAX_TOKEN_COUNT_CACHE_ENTRIES) {
+			this.tokenCounts.delete(this.tokenCounts.keys().next().value as string);
+		}
+	}
+
+	// Adds the generation options to a request body, moving keep_alive, format and images out of the model options
+	private applyOptions(request: Record<string, unknown>, options?: GenerationOptions): Record<string, unknown> {
+		if (options) {
+			const {keep_alive, format, images, ...modelOptions} = options;
+			if (keep_alive) {
+				request.keep_alive = keep_alive;
+			}
+			if (format) {
+				request.format = format;
+			}
+			if (images && images.length > 0) {
+				request.images = images;
+			}
+			if (Object.keys(modelOptions).length > 0) {
+				request.options = modelOptions;
+			}
+		}
+
+		return request;
+	}
+
+	private buildGenerateRequest(model: string, prompt: string, systemPrompt: string, stream: boolean, options?: GenerationOptions): Record<string, unknown> {
+		return this.applyOptions({
+			model: model,
+			prompt: prompt,
+			system: systemPrompt,
+			stream: stream
+		}, options);
+	}
+
+	async generateTextWithStats(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<GenerationResult> {
+		try {
+			options = await this.prepareContextWindow(model, prompt, systemPrompt, options, signal);
+
+			const start = Date.now();
+			const response = await this.request(`${this.baseUrl}/api/generate`, {
+				method: 'POST',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify(this.buildGenerateRequest(model, prompt, systemPrompt, true, options)),
+				signal
+			});
+
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to generate text'));
+			}
+
+			const data = await readOllamaResponse(response);
+			return {
+				text: data.response,
+				stats: {
+					promptTokens: data.prompt_eval_count,
+					responseTokens: data.eval_count,
+					generationTime: data.eval_duration !== undefined ? data.eval_duration / 1e6 : undefined,
+					totalTime: Date.now() - start
+				}
+			};
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error generating text with Ollama:", error);
+			}
+			throw error;
+		}
+	}
+
+	async generateTextStream(model: string, prompt: string, systemPrompt: string, onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string> {
+		try {
+			options = await this.prepareContextWindow(model, prompt, systemPrompt, options, signal);
+
+			const response = await this.request(`${this.baseUrl}/api/generate`, {
+				method: 'POST',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify(this.buildGenerateRequest(model, prompt, systemPrompt, true, options)),
+				signal
+			});
+
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to generate text'));
+			}
+
+			return (await readOllamaResponse(response, onToken)).response;
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error streaming text from Ollama:", error);
+			}
+			throw error;
+		}
+	}
+
+	async embed(model: string, texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		try {
+			const response = await this.request(`${this.baseUrl}/api/embed`, {
+				method: 'POST',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify({
+					model: model,
+					input: texts
+				}),
+				signal
+			});
+
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to create embeddings'));
+			}
+
+			const data = await response.json() as {embeddings: number[][]};
+			return data.embeddings;
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error creating embeddings with Ollama:", error);
+			}
+			throw error;
+		}
+	}
+
+	async chatStream(model: string, messages: ChatMessage[], onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string> {
+		try {
+			// The note the chat is grounded in can be as long as any prompt input
+			const conversation = messages.map(message => message.content).join('\n');
+			options = await this.prepareContextWindow(model, conversation, '', options, signal);
+
+			const request = this.applyOptions({
+				model: model,
+				messages: messages,
+				stream: true
+			}, options);
+
+			const response = await this.request(`${this.baseUrl}/api/chat`, {
+				method: 'POST',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify(request),
+				signal
+			});
+
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to chat'));
+			}
+
+			let text = '';
+			await readNdjson<OllamaChatResponse>(response, chunk => {
+				if (chunk.error) {
+					throw new Error(chunk.error);
+				}
+				if (chunk.message?.content) {
+					text += chunk.message.content;
+					onToken(chunk.message.content);
+				}
+			});
+			return text;
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error chatting with Ollama:", error);
+			}
+			throw error;
+		}
+	}
+}
+
+interface OpenAIChatCompletion {
+	choices: {
+		delta?: {content?: string | null};
+	}[];
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+	};
+}
+
+// Client for servers with an OpenAI-compatible API, e.g. LM Studio or the llama.cpp server
+class OpenAICompatibleService extends LLMService {
+	private readonly baseUrl: string;
+	private readonly apiKey: string;
+	// The API does not report context windows, so it is configured in the settings
+	private readonly contextLength: number;
+
+	constructor(baseUrl: string, apiKey: string, contextLength: number, requestConfig: RequestConfig) {
+		super(requestConfig);
+		// Accept the base URL with or without a trailing slash
+		this.baseUrl = baseUrl.replace(/\/+$/, '');
+		this.apiKey = apiKey;
+		this.contextLength = contextLength;
+	}
+
+	// The API has no version endpoint, so the model list is used to check the connection
+	async testConnection(): Promise<ConnectionStatus> {
+		const start = Date.now();
+		const response = await this.request(`${this.baseUrl}/models`, {headers: this.getHeaders(this.apiKey)}, false);
+		if (!response.ok) {
+			throw new Error(await getResponseError(response, 'Failed to connect'));
+		}
+		return {version: null, latency: Date.now() - start};
+	}
+
+	async getModels(retry = true): Promise<string[]> {
+		try {
+			const response = await this.request(`${this.baseUrl}/models`, {headers: this.getHeaders(this.apiKey)}, retry);
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to fetch models'));
+			}
+			const data = await response.json();
+			return data.data.map((model: {id: string}) => model.id);
+		} catch (error) {
+			console.error("Error fetching models:", error);
+			throw error;
+		}
+	}
+
+	async getContextLength(model: string, options?: GenerationOptions): Promise<number> {
+		return options?.num_ctx ? Math.min(this.contextLength, options.num_ctx) : this.contextLength;
+	}
+
+	async embed(model: string, texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		try {
+			const response = await this.request(`${this.baseUrl}/embeddings`, {
+				method: 'POST',
+				headers: this.getHeaders(this.apiKey),
+				body: JSON.stringify({
+					model: model,
+					input: texts
+				}),
+				signal
+			});
+
+			if (!response.ok) {
+				throw new Error(await getResponseError(response, 'Failed to create embeddings'));
+			}
+
+			// The embeddings are not guaranteed to come back in the order of the input
+			const data = await response.json() as {data: {embedding: number[], index: number}[]};
+			return data.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error creating embeddings:", error);
+			}
+			throw error;
+		}
+	}
+
+	// Maps the Ollama style options to their OpenAI equivalents. num_ctx and keep_alive have none.
+	// Responses are always streamed, so the request timeout only waits for the first token. The token counts come with the last event.
+	private buildCompletionRequest(model: string, messages: ChatMessage[], options?: GenerationOptions): Record<string, unknown> {
+		const request: Record<string, unknown> = {
+			model: model,
+			messages: messages,
+			stream: true,
+			stream_options: {include_usage: true}
+		};
+
+		if (options) {
+			if (options.temperature !== undefined) {
+				request.temperature = options.temperature;
+			}
+			if (options.top_p !== undefined) {
+				request.top_p = options.top_p;
+			}
+			if (options.seed !== undefined) {
+				request.seed = options.seed;
+			}
+			if (options.num_predict !== undefined) {
+				request.max_tokens = options.num_predict;
+			}
+			if (options.stop && options.stop.length > 0) {
+				request.stop = options.stop;
+			}
+			if (options.format) {
+				request.response_format = {
+					type: 'json_schema',
+					json_schema: {name: 'response', schema: options.format}
+				};
+			}
+			// Images go with the user's message as data URLs
+			const images = options.images;
+			if (images && images.length > 0) {
+				request.messages = messages.map((message, index) => index !== messages.length - 1 ? message : {
+					role: message.role,
+					content: [
+						{type: 'text', text: message.content},
+						...images.map(image => ({type: 'image_url', image_url: {url: `data:${getImageMimeType(image)};base64,${image}`}}))
+					]
+				});
+			}
+		}
+
+		return request;
+	}
+
+	private buildMessages(prompt: string, systemPrompt: string): ChatMessage[] {
+		const messages: ChatMessage[] = [];
+		if (systemPrompt) {
+			messages.push({role: 'system', content: systemPrompt});
+		}
+		messages.push({role: 'user', content: prompt});
+		return messages;
+	}
+
+	private async postCompletion(model: string, messages: ChatMessage[], options?: GenerationOptions, signal?: AbortSignal): Promise<Response> {
+		const response = await this.request(`${this.baseUrl}/chat/completions`, {
+			method: 'POST',
+			headers: this.getHeaders(this.apiKey),
+			body: JSON.stringify(this.buildCompletionRequest(model, messages, options)),
+			signal
+		});
+
+		if (!response.ok) {
+			throw new Error(await getResponseError(response, 'Failed to generate text'));
+		}
+		return response;
+	}
+
+	private async streamCompletion(model: string, messages: ChatMessage[], onToken?: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<{text: string, usage?: OpenAIChatCompletion['usage']}> {
+		const response = await this.postCompletion(model, messages, options, signal);
+
+		let text = '';
+		let usage: OpenAIChatCompletion['usage'];
+		await readServerSentEvents(response, data => {
+			const chunk = JSON.parse(data) as OpenAIChatCompletion;
+			const token = chunk.choices[0]?.delta?.content;
+			if (token) {
+				text += token;
+				onToken?.(token);
+			}
+			usage = chunk.usage ?? usage;
+		});
+		return {text, usage};
+	}
+
+	async generateTextWithStats(model: string, prompt: string, systemPrompt: string, options?: GenerationOptions, signal?: AbortSignal): Promise<GenerationResult> {
+		try {
+			options = await this.prepareContextWindow(model, prompt, systemPrompt, options, signal);
+
+			const start = Date.now();
+			const {text, usage} = await this.streamCompletion(model, this.buildMessages(prompt, systemPrompt), undefined, options, signal);
+			return {
+				text: text,
+				stats: {
+					promptTokens: usage?.prompt_tokens,
+					responseTokens: usage?.completion_tokens,
+					totalTime: Date.now() - start
+				}
+			};
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error generating text:", error);
+			}
+			throw error;
+		}
+	}
+
+	async generateTextStream(model: string, prompt: string, systemPrompt: string, onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string> {
+		try {
+			options = await this.prepareContextWindow(model, prompt, systemPrompt, options, signal);
+			return (await this.streamCompletion(model, this.buildMessages(prompt, systemPrompt), onToken, options, signal)).text;
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error streaming text:", error);
+			}
+			throw error;
+		}
+	}
+
+	async chatStream(model: string, messages: ChatMessage[], onToken: (token: string) => void, options?: GenerationOptions, signal?: AbortSignal): Promise<string> {
+		try {
+			return (await this.streamCompletion(model, messages, onToken, options, signal)).text;
+		} catch (error) {
+			if (!isAbortError(error)) {
+				console.error("Error chatting:", error);
+			}
+			throw error;
+		}
+	}
+}
+
+// Tells the image type from the first bytes of the file, as data URLs need it
+function getImageMimeType(base64: string): string {
+	if (base64.startsWith('/9j/')) {
+		return 'image/jpeg';
+	}
+	if (base64.startsWith('UklGR')) {
+		return 'image/webp';
+	}
+	return 'image/png';
+}
+
+// Calls onLine for every line of a streamed response body
+async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+	if (!response.body) {
+		throw new Error("Response has no body to stream");
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+
+	for (;;) {
+		const {done, value} = await reader.read();
+		if (done) {
+			break;
+		}
+
+		buffer += decoder.decode(value, {stream: true});
+		const lines = buffer.split('\n');
+		// The last element is either empty or an incomplete line
+		buffer = lines.pop() || '';
+		lines.forEach(onLine);
+	}
+
+	if (buffer) {
+		onLine(buffer);
+	}
+}
+
+// Ollama streams responses as newline-delimited JSON objects
+async function readNdjson<T>(response: Response, onChunk: (chunk: T) => void): Promise<void> {
+	await readLines(response, line => {
+		if (line.trim()) {
+			onChunk(JSON.parse(line) as T);
+		}
+	});
+}
+
+// Collects a streamed generation into one response, so the request timeout only waits for the first token
+async function readOllamaResponse(response: Response, onToken?: (token: string) => void): Promise<OllamaResponse> {
+	let text = '';
+	// Assigned in the callback, which control flow analysis does not follow
+	let final = null as OllamaResponse | null;
+	await readNdjson<OllamaResponse>(response, chunk => {
+		if (chunk.error) {
+			throw new Error(chunk.error);
+		}
+		if (chunk.response) {
+			text += chunk.response;
+			onToken?.(chunk.response);
+		}
+		if (chunk.done) {
+			final = chunk;
+		}
+	});
+	if (!final) {
+		throw new Error("The response ended before it was complete");
+	}
+	return {...final, response: text};
+}
+
+// OpenAI-compatible servers stream responses as server-sent events, ending with "data: [DONE]"
+async function readServerSentEvents(response: Response, onData: (data: string) => void): Promise<void> {
+	let finished = false;
+	await readLines(response, line => {
+		const trimmed = line.trim();
+		if (finished || !trimmed.startsWith('data:')) {
+			return;
+		}
+		const data = trimmed.slice('data:'.length).trim();
+		if (data === '[DONE]') {
+			finished = true;
+			return;
+		}
+		onData(data);
+	});
+}
+
+// The maximum context length is reported in model_info under "<architecture>.context_length"
+function getMaxContextLength(modelInfo: OllamaModelInfo): number | null {
+	const details = modelInfo.model_info;
+	if (!details) {
+		return null;
+	}
+	const architecture = details['general.architecture'];
+	const contextLength = details[`${architecture}.context_length`];
+	return typeof contextLength === 'number' ? contextLength : null;
+}
+
+function formatBytes(bytes: number): string {
+	const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+class RequestTimeoutError extends Error {
+	constructor(timeout: number) {
+		super(`The server did not respond within ${timeout} seconds`);
+		this.name = 'RequestTimeoutError';
+	}
+}
+
+// Aborts the request if the server does not start responding in time. Bodies are not limited once the response started.
+async function fetchWithTimeout(url: string, init: RequestInit, timeout: number): Promise<Response> {
+	if (!timeout) {
+		return fetch(url, init);
+	}
+
+	const controller = new AbortController();
+	const signal = init.signal;
+	let timedOut = false;
+	const onAbort = () => controller.abort();
+	signal?.addEventListener('abort', onAbort);
+	if (signal?.aborted) {
+		controller.abort();
+	}
+
+	const timer = window.setTimeout(() => {
+		timedOut = true;
+		controller.abort();
+	}, timeout * 1000);
+
+	let response: Response;
+	try {
+		response = await fetch(url, {...init, signal: controller.signal});
+	} catch (error) {
+		signal?.removeEventListener('abort', onAbort);
+		if (timedOut) {
+			throw new RequestTimeoutError(timeout);
+		}
+		throw error;
+	} finally {
+		window.clearTimeout(timer);
+	}
+
+	if (!signal || !response.body) {
+		signal?.removeEventListener('abort', onAbort);
+		return response;
+	}
+	// The caller can still cancel while the body is read, so the listener stays until the body has ended
+	const body = response.body.pipeThrough(new TransformStream({
+		flush: () => signal.removeEventListener('abort', onAbort)
+	}));
+	return new Response(body, {status: response.status, statusText: response.statusText, headers: response.headers});
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException('The operation was aborted', 'AbortError'));
+			return;
+		}
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new DOMException('The operation was aborted', 'AbortError'));
+		};
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
+
+// Prefers the error message in the response body (e.g. Ollama's {"error": "model not found"}) over the status text
+async function getResponseError(response: Response, action: string): Promise<string> {
+	let message = '';
+	try {
+		const body = await response.text();
+		try {
+			const data = JSON.parse(body);
+			message = typeof data.error === 'string' ? data.error : data.error?.message ?? '';
+		} catch {
+			message = body.trim();
+		}
+	} catch {
+		// The body could not be read, fall back to the status
+	}
+	return `${action}: ${message || response.statusText || `HTTP ${response.status}`}`;
+}
+
+function isAbortError(error: unknown): boolean {
+	return error instanceof Error && error.name === 'AbortError';
+}
+
+// SHA-256 of the text as a hex string
+async function hashText(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+// Upper limit for the comparison table of diffLines, about 16 MB
+const MAX_DIFF_CELLS = 4000000;
+
+// Line diff based on the longest common subsequence. Lines the texts start and end with are skipped first, which keeps the table small.
+function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n');
+	const b = after.split('\n');
+
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const result: DiffLine[] = a.slice(0, start).map(text => ({type: 'same', text}));
+	const middleA = a.slice(start, endA);
+	const middleB = b.slice(start, endB);
+	const n = middleA.length;
+	const m = middleB.length;
+
+	if (n * m > MAX_DIFF_CELLS) {
+		// Too large to compare line by line
+		middleA.forEach(text => result.push({type: 'removed', text}));
+		middleB.forEach(text => result.push({type: 'added', text}));
+	} else {
+		// lengths[i * (m + 1) + j] is the length of the common subsequence of middleA from i and middleB from j
+		const lengths = new Uint32Array((n + 1) * (m + 1));
+		for (let i = n - 1; i >= 0; i--) {
+			for (let j = m - 1; j >= 0; j--) {
+				lengths[i * (m + 1) + j] = middleA[i] === middleB[j]
+					? lengths[(i + 1) * (m + 1) + j + 1] + 1
+					: Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+			}
+		}
+
+		let i = 0;
+		let j = 0;
+		while (i < n && j < m) {
+			if (middleA[i] === middleB[j]) {
+				result.push({type: 'same', text: middleA[i]});
+				i++;
+				j++;
+			} else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+				result.push({type: 'removed', text: middleA[i++]});
+			} else {
+				result.push({type: 'added', text: middleB[j++]});
+			}
+		}
+		middleA.slice(i).forEach(text => result.push({type: 'removed', text}));
+		middleB.slice(j).forEach(text => result.push({type: 'added', text}));
+	}
+
+	a.slice(endA).forEach(text => result.push({type: 'same', text}));
+	return result;
+}
+
+// Lines that start a new speaker turn, e.g. "Alice:", "**Bob**:", "[00:12:03] Carol:"
+const SPEAKER_TURN_PATTERN = /^\s*(\[?\d{1,2}:\d{2}(:\d{2})?\]?\s*)?(\*\*)?[\p{L}][\p{L}\d .'-]{0,40}(\*\*)?:\s/u;
+
+// Groups lines into paragraphs and speaker turns, the preferred places to split a long text
+function splitIntoUnits(text: string): string[] {
+	const units: string[] = [];
+	let current: string[] = [];
+
+	const flush = () => {
+		if (current.length > 0) {
+			units.push(current.join('\n'));
+			current = [];
+		}
+	};
+
+	for (const line of text.split('\n')) {
+		if (!line.trim()) {
+			flush();
+		} else {
+			if (SPEAKER_TURN_PATTERN.test(line)) {
+				flush();
+			}
+			current.push(line);
+		}
+	}
+	flush();
+
+	return units;
+}
+
+// Hard-splits a single unit that is too long to fit into one chunk, preferring whitespace
+function splitOversizedUnit(unit: string, maxChars: number): string[] {
+	const parts: string[] = [];
+	let rest = unit;
+	while (rest.length > maxChars) {
+		let cut = rest.lastIndexOf(' ', maxChars);
+		if (cut <= 0) {
+			cut = maxChars;
+		}
+		parts.push(rest.slice(0, cut).trim());
+		rest = rest.slice(cut).trim();
+	}
+	if (rest) {
+		parts.push(rest);
+	}
+	return parts;
+}
+
+// Splits text into chunks of at most maxChars on unit boundaries, repeating up to overlapChars of trailing units
+function splitIntoChunks(text: string, maxChars: number, overlapChars: number): string[] {
+	const units: string[] = [];
+	for (const unit of splitIntoUnits(text)) {
+		units.push(...splitOversizedUnit(unit, maxChars));
+	}
+
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let currentLength = 0;
+	let hasNewUnits = false;
+
+	for (const unit of units) {
+		if (hasNewUnits && currentLength + unit.length > maxChars) {
+			chunks.push(current.join('\n\n'));
+
+			// Carry trailing units over into the next chunk for context
+			const overlap: string[] = [];
+			let overlapLength = 0;
+			for (let i = current.length - 1; i >= 0; i--) {
+				if (overlapLength + current[i].length > overlapChars) {
+					break;
+				}
+				overlap.unshift(current[i]);
+				overlapLength += current[i].length;
+			}
+
+			if (overlapLength + unit.length > maxChars) {
+				current = [];
+				currentLength = 0;
+			} else {
+				current = overlap;
+				currentLength = overlapLength;
+			}
+			hasNewUnits = false;
+		}
+
+		current.push(unit);
+		currentLength += unit.length;
+		hasNewUnits = true;
+	}
+
+	if (hasNewUnits) {
+		chunks.push(current.join('\n\n'));
+	}
+
+	return chunks;
+}
+
+// Splits a note into passages for the semantic index, leaving out the frontmatter
+function splitIntoPassages(text: string): string[] {
+	return splitIntoChunks(text.replace(FRONTMATTER_PATTERN, ''), PASSAGE_LENGTH, PASSAGE_OVERLAP)
+		.filter(passage => passage.trim().length > 0);
+}
+
+// Kinds of personal data that can be replaced with placeholders before text is sent to the model
+type RedactionCategory = 'email' | 'phone' | 'account' | 'name';
+
+const REDACTION_CATEGORIES: Record<RedactionCategory, string> = {
+	'email': 'Email addresses',
+	'phone': 'Phone numbers',
+	'account': 'IBANs and card numbers',
+	'name': 'Names'
+};
+
+interface Redaction {
+	placeholder: string;
+	value: string;
+	category: RedactionCategory;
+}
+
+const EMAIL_PATTERN = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g;
+const CARD_NUMBER_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const PHONE_NUMBER_PATTERN = /(?<![\w+])\+?\(?\d[\d ()./-]{5,}\d(?!\w)/g;
+const DATE_LIKE_PATTERN = /^\d{1,4}([./-])\d{1,2}\1\d{1,4}$/;
+// Models sometimes drop the brackets, so they are optional when placeholders are put back
+const PLACEHOLDER_PATTERN = /\[?\b(EMAIL|PHONE|ACCOUNT|NAME)_(\d+)\b\]?/g;
+// Longest placeholder prefix that is held back while streaming, e.g. "[ACCOUNT_123"
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+// Checks the IBAN checksum, so that other codes of the same shape are left alone
+function isValidIban(match: string): boolean {
+	const iban = match.replace(/ /g, '');
+	let remainder = 0;
+	for (const char of iban.slice(4) + iban.slice(0, 4)) {
+		// Letters count as two digits, A = 10 to Z = 35
+		const value = parseInt(char, 36);
+		remainder = (remainder * (value < 10 ? 10 : 100) + value) % 97;
+	}
+	return remainder === 1;
+}
+
+// Card numbers end with a Luhn check digit
+function passesLuhnCheck(match: string): boolean {
+	const digits = match.replace(/\D/g, '');
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = parseInt(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) {
+				digit -= 9;
+			}
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+// Dates and long plain numbers match the phone number pattern too
+function isPhoneNumber(match: string): boolean {
+	const digits = match.replace(/\D/g, '');
+	return digits.length >= 7 && digits.length <= 15
+		&& !DATE_LIKE_PATTERN.test(match)
+		&& (/^[+0(]/.test(match) || /[ ()./-]/.test(match));
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Replaces personal data with placeholders before text is sent to the model, and puts it back into the response.
+// A value gets the same placeholder everywhere it occurs, so the model can still tell people apart.
+class Redactor {
+	private readonly categories: Set<RedactionCategory>;
+	private readonly names: string[];
+	// Placeholders by category and value, and the redactions by placeholder
+	private readonly placeholders = new Map<string, string>();
+	private readonly values = new Map<string, Redaction>();
+
+	constructor(categories: RedactionCategory[], names: string[]) {
+		this.categories = new Set(categories);
+		// Longer names first, so that "Alice Smith" is not redacted as "Alice" followed by "Smith"
+		this.names = names.map(name => name.trim()).filter(name => name.length > 0).sort((a, b) => b.length - a.length);
+	}
+
+	get redactions(): Redaction[] {
+		return [...this.values.values()];
+	}
+
+	redact(text: string): string {
+		// Email addresses go first, as they can contain names and numbers
+		if (this.categories.has('email')) {
+			text = text.replace(EMAIL_PATTERN, match => this.getPlaceholder('email', match));
+		}
+		if (this.categories.has('account')) {
+			text = text
+				.replace(IBAN_PATTERN, match => isValidIban(match) ? this.getPlaceholder('account', match) : match)
+				.replace(CARD_NUMBER_PATTERN, match => passesLuhnCheck(match) ? this.getPlaceholder('account', match) : match);
+		}
+		if (this.categories.has('phone')) {
+			text = text.replace(PHONE_NUMBER_PATTERN, match => isPhoneNumber(match) ? this.getPlaceholder('phone', match) : match);
+		}
+		for (const name of this.names) {
+			const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'giu');
+			text = text.replace(pattern, match => this.getPlaceholder('name', match));
+		}
+		return text;
+	}
+
+	redactPrompt(prompt: Prompt): Prompt {
+		return {
+			...prompt,
+			body: this.redact(prompt.body),
+			systemPrompt: prompt.systemPrompt ? this.redact(prompt.systemPrompt) : prompt.systemPrompt
+		};
+	}
+
+	restore(text: string): string {
+		return text.replace(PLACEHOLDER_PATTERN, (match, label: string, number: string) => {
+			const redaction = this.values.get(`[${label}_${number}]`);
+			return redaction ? redaction.value : match;
+		});
+	}
+
+	// Restores the strings in values parsed from JSON, e.g. frontmatter properties of structured prompts
+	restoreValue(value: unknown): unknown {
+		if (typeof value === 'string') {
+			return this.restore(value);
+		}
+		if (Array.isArray(value)) {
+			return value.map(item => this.restoreValue(item));
+		}
+		if (value && typeof value === 'object') {
+			return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.restoreValue(item)]));
+		}
+		return value;
+	}
+
+	// Restores streamed tokens, holding back what could be the start of a placeholder until it is complete.
+	// The last held back characters are not passed on, the complete response has to be restored separately.
+	restoreStream(onToken: (token: string) => void): (token: string) => void {
+		let pending = '';
+		return (token: string) => {
+			pending += token;
+			const start = pending.lastIndexOf('[');
+			const held = start !== -1 && !pending.includes(']', start) && pending.length - start <= MAX_PLACEHOLDER_LENGTH
+				? pending.slice(start)
+				: '';
+			const ready = pending.slice(0, pending.length - held.length);
+			pending = held;
+			if (ready) {
+				onToken(this.restore(ready));
+			}
+		};
+	}
+
+	private getPlaceholder(category: RedactionCategory, value: string): string {
+		// Names are matched regardless of case, so "alice" and "Alice" are the same person
+		const key = `${category}:${category === 'name' ? value.toLowerCase() : value}`;
+		let placeholder = this.placeholders.get(key);
+		if (!placeholder) {
+			const count = this.redactions.filter(redaction => redaction.category === category).length;
+			placeholder = `[${category.toUpperCase()}_${count + 1}]`;
+			this.placeholders.set(key, placeholder);
+			this.values.set(placeholder, {placeholder, value, category});
+		}
+		return placeholder;
+	}
+}
+
+type TranscriptFormat = 'webvtt' | 'srt' | 'zoom' | 'teams' | 'otter';
+
+const TRANSCRIPT_FORMATS: Record<TranscriptFormat, string> = {
+	'webvtt': 'WebVTT',
+	'srt': 'SRT',
+	'zoom': 'Zoom',
+	'teams': 'Microsoft Teams',
+	'otter': 'Otter'
+};
+
+interface TranscriptTurn {
+	// Null for captions without a speaker
+	speaker: string | null;
+	text: string;
+}
+
+interface NormalizedTranscript {
+	format: TranscriptFormat;
+	text: string;
+}
+
+// "00:01:02.500 --> 00:01:04.000" in WebVTT, with a comma instead of the dot in SRT
+const CUE_TIMING_PATTERN = /^(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s+-->\s+(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+// Speaker in a WebVTT voice tag, e.g. "<v Alice Smith>" or "<v.loud Alice>"
+const CUE_VOICE_PATTERN = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+// Speaker label at the start of a caption, e.g. "Alice Smith: Hello"
+const CUE_SPEAKER_PATTERN = /^([\p{L}][\p{L}\d .'-]{0,40}):\s+(.*)$/u;
+// Zoom: "[Alice Smith] 10:02:03" above the text
+const ZOOM_HEADER_PATTERN = /^\[([^\]]{1,60})\]\s+\d{1,2}:\d{2}(:\d{2})?$/;
+// Otter: "Alice Smith  0:03" above the text
+const OTTER_HEADER_PATTERN = /^([\p{L}][\p{L}\d .'-]{0,40}?)\s{2,}\d{1,2}:\d{2}(:\d{2})?$/u;
+// Teams: the speaker and "0:03" on separate lines above the text
+const TEAMS_SPEAKER_PATTERN = /^[\p{L}][\p{L}\d .'(),-]{0,60}$/u;
+const TIMESTAMP_LINE_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?$/;
+
+// Parses WebVTT and SRT captions, which are blocks of an optional cue number, the timing line and the text
+function parseCaptions(text: string): TranscriptTurn[] {
+	const turns: TranscriptTurn[] = [];
+	for (const block of text.split(/\n\s*\n/)) {
+		const lines = block.split('\n').map(line => line.trim());
+		const timingIndex = lines.findIndex(line => CUE_TIMING_PATTERN.test(line));
+		// Blocks without timing are headers, NOTE, STYLE or REGION blocks
+		if (timingIndex === -1) {
+			continue;
+		}
+
+		let caption = lines.slice(timingIndex + 1).filter(line => line).join(' ');
+		let speaker: string | null = null;
+		const voice = CUE_VOICE_PATTERN.exec(caption);
+		if (voice) {
+			speaker = voice[1].trim();
+		}
+		caption = caption.replace(/<[^>]+>/g, '').trim();
+		const label = CUE_SPEAKER_PATTERN.exec(caption);
+		if (!speaker && label) {
+			speaker = label[1].trim();
+			caption = label[2];
+		}
+		if (caption) {
+			turns.push({speaker, text: caption});
+		}
+	}
+	return turns;
+}
+
+// Parses exports where a header line (or lines) with the speaker precedes each turn. Text before the first header is kept without a speaker.
+function parseHeaderedTranscript(lines: string[], readHeader: (lines: string[], index: number) => {speaker: string, length: number} | null): TranscriptTurn[] {
+	const turns: TranscriptTurn[] = [];
+	let current: TranscriptTurn | null = null;
+	for (let i = 0; i < lines.length; i++) {
+		const header = readHeader(lines, i);
+		if (header) {
+			current = {speaker: header.speaker, text: ''};
+			turns.push(current);
+			i += header.length - 1;
+			continue;
+		}
+
+		const line = lines[i].trim();
+		if (!line) {
+			continue;
+		}
+		if (!current) {
+			current = {speaker: null, text: ''};
+			turns.push(current);
+		}
+		current.text = current.text ? `${current.text} ${line}` : line;
+	}
+	return turns.filter(turn => turn.text);
+}
+
+const TRANSCRIPT_HEADER_READERS: Record<'zoom' | 'teams' | 'otter', (lines: string[], index: number) => {speaker: string, length: number} | null> = {
+	'zoom': (lines, index) => {
+		const match = ZOOM_HEADER_PATTERN.exec(lines[index].trim());
+		return match ? {speaker: match[1].trim(), length: 1} : null;
+	},
+	'teams': (lines, index) => {
+		const speaker = lines[index].trim();
+		const next = lines[index + 1]?.trim() ?? '';
+		return TEAMS_SPEAKER_PATTERN.test(speaker) && TIMESTAMP_LINE_PATTERN.test(next) ? {speaker, length: 2} : null;
+	},
+	'otter': (lines, index) => {
+		const match = OTTER_HEADER_PATTERN.exec(lines[index].trim());
+		return match ? {speaker: match[1].trim(), length: 1} : null;
+	}
+};
+
+// Finds the export format of a transcript. Exports with speaker headers need several headers, making up a good part of the lines.
+function detectTranscriptFormat(text: string): TranscriptFormat | null {
+	const lines = text.split('\n');
+	const firstLine = lines.find(line => line.trim())?.trim() ?? '';
+	if (/^WEBVTT\b/.test(firstLine)) {
+		return 'webvtt';
+	}
+	if (/^\d+$/.test(firstLine) && lines.some(line => CUE_TIMING_PATTERN.test(line.trim()) && line.includes(','))) {
+		return 'srt';
+	}
+
+	const nonEmptyLines = lines.filter(line => line.trim()).length;
+	for (const format of Object.keys(TRANSCRIPT_HEADER_READERS) as (keyof typeof TRANSCRIPT_HEADER_READERS)[]) {
+		const readHeader = TRANSCRIPT_HEADER_READERS[format];
+		const headers = lines.filter((line, index) => readHeader(lines, index) !== null).length;
+		if (headers >= 2 && headers * 5 >= nonEmptyLines) {
+			return format;
+		}
+	}
+	return null;
+}
+
+// Merges consecutive turns of the same speaker, dropping captions that repeat the previous one
+function formatTranscriptTurns(turns: TranscriptTurn[]): string {
+	const merged: TranscriptTurn[] = [];
+	let previousText = '';
+	for (const turn of turns) {
+		if (turn.text === previousText) {
+			continue;
+		}
+		previousText = turn.text;
+
+		const last = merged[merged.length - 1];
+		if (last && last.speaker === turn.speaker) {
+			last.text += ` ${turn.text}`;
+		} else {
+			merged.push({...turn});
+		}
+	}
+	return merged.map(turn => turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text).join('\n\n');
+}
+
+// Turns a caption file or meeting tool export into compact speaker turns, or returns null for other texts
+function normalizeTranscript(text: string): NormalizedTranscript | null {
+	const content = text.slice(getContentStart(text)).replace(/\r\n/g, '\n');
+	const format = detectTranscriptFormat(content);
+	if (!format) {
+		return null;
+	}
+
+	const turns = format === 'webvtt' || format === 'srt'
+		? parseCaptions(content)
+		: parseHeaderedTranscript(content.split('\n'), TRANSCRIPT_HEADER_READERS[format]);
+	const normalized = formatTranscriptTurns(turns);
+	return normalized ? {format, text: normalized} : null;
+}
+
+interface AssembledRequest {
+	model: string;
+	prompt: string;
+	systemPrompt: string;
+}
+
+// Output of one model in a comparison, or the error it failed with
+interface ModelComparisonResult {
+	model: string;
+	startedAt: number;
+	text?: string;
+	stats?: GenerationStats;
+	error?: string;
+}
+
+// What would be sent to the model, shown by "Preview request"
+interface RequestPreview {
+	item: Prompt | Pipeline;
+	// The prompt that is previewed, the first step for pipelines
+	prompt: Prompt;
+	request: AssembledRequest;
+	options: GenerationOptions;
+	// Counted by the server if the same input was sent before, estimated otherwise. Nothing is sent to count them.
+	tokens: number;
+	// Null when the server could not be reached
+	contextLength: number | null;
+	inputReport: string | null;
+	// Null when redaction is turned off
+	redactions: Redaction[] | null;
+	// Paths of the images sent along, null when the prompt does not include images
+	images: string[] | null;
+	// Null when it is not known whether the model takes images
+	imageSupport: boolean | null;
+}
+
+// Information about the note a prompt runs on. Provides the values of {{variables}} in prompt bodies and system prompts.
+interface PromptContext {
+	// The note being processed
+	file: TFile | null;
+	// Frontmatter properties produced by structured prompts, written to the note after the output
+	properties: Record<string, unknown>;
+	title: string;
+	selection: string;
+	frontmatter: Record<string, unknown>;
+	tags: string[];
+	// Returns the content of the note a {{embed:[[Note]]}} variable links to
+	readEmbed: (link: string) => Promise<string>;
+	// Set while the prompt runs when personal data is redacted
+	redactor?: Redactor | null;
+	// Images embedded in the text, read before it runs when a prompt includes them
+	images?: EmbeddedImage[];
+}
+
+interface EmbeddedImage {
+	path: string;
+	// Base64 encoded file content
+	data: string;
+}
+
+// Image formats vision models in Ollama can read
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+
+// Embeds like ![[whiteboard.png|400]] and ![Slide](attachments/slide%201.png)
+const IMAGE_EMBED_PATTERN = /!\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]|!\[[^\]]*\]\(<?([^)>]+?)>?(?:\s+"[^"]*")?\)/g;
+
+// Keeps a note full of screenshots from filling the whole context window with images
+const MAX_PROMPT_IMAGES = 8;
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// {{text}} is filled in last by buildFullPrompt, so that chunks can be substituted one at a time
+const TEXT_VARIABLE = '{{text}}';
+
+function isKnownTemplateVariable(name: string): boolean {
+	return ['text', 'title', 'date', 'time', 'selection', 'tags'].includes(name)
+		|| name.startsWith('date:')
+		|| name.startsWith('frontmatter.')
+		|| name.startsWith('embed:');
+}
+
+function findUnknownTemplateVariables(template: string): string[] {
+	const unknown: string[] = [];
+	const pattern = new RegExp(TEMPLATE_VARIABLE_PATTERN.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(template)) !== null) {
+		if (!isKnownTemplateVariable(match[1]) && !unknown.includes(match[1])) {
+			unknown.push(match[1]);
+		}
+	}
+	return unknown;
+}
+
+function formatTemplateValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatTemplateValue).join(', ');
+	}
+	if (typeof value === 'object') {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+async function resolveTemplateVariable(name: string, context: PromptContext): Promise<string> {
+	if (name === 'text') {
+		return TEXT_VARIABLE;
+	}
+	if (name === 'title') {
+		return context.title;
+	}
+	if (name === 'selection') {
+		return context.selection;
+	}
+	if (name === 'tags') {
+		return context.tags.join(', ');
+	}
+	if (name === 'date') {
+		return moment().format('YYYY-MM-DD');
+	}
+	if (name === 'time') {
+		return moment().format('HH:mm');
+	}
+	if (name.startsWith('date:')) {
+		return moment().format(name.slice('date:'.length));
+	}
+	if (name.startsWith('frontmatter.')) {
+		// Nested properties can be reached with dots, e.g. {{frontmatter.project.name}}
+		let value: unknown = context.frontmatter;
+		for (const key of name.slice('frontmatter.'.length).split('.')) {
+			value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+		}
+		return formatTemplateValue(value);
+	}
+	if (name.startsWith('embed:')) {
+		return await context.readEmbed(name.slice('embed:'.length).trim());
+	}
+	throw new Error(`Unknown template variable {{${name}}}`);
+}
+
+// Replaces {{variables}} in a prompt template. {{text}} is kept for buildFullPrompt.
+async function renderTemplate(template: string, context: PromptContext): Promise<string> {
+	const unknown = findUnknownTemplateVariables(template);
+	if (unknown.length > 0) {
+		throw new Error(`Unknown template variable${unknown.length > 1 ? 's' : ''}: ${unknown.map(name => `{{${name}}}`).join(', ')}`);
+	}
+
+	let result = '';
+	let lastIndex = 0;
+	const pattern = new RegExp(TEMPLATE_VARIABLE_PATTERN.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(template)) !== null) {
+		result += template.slice(lastIndex, match.index) + await resolveTemplateVariable(match[1], context);
+		lastIndex = match.index + match[0].length;
+	}
+	return result + template.slice(lastIndex);
+}
+
+interface OutputTemplateValues {
+	output: string;
+	original: string;
+	model: string;
+	prompt: string;
+}
+
+function isKnownOutputTemplateVariable(name: string): boolean {
+	return ['output', 'original', 'model', 'prompt', 'date', 'time'].includes(name) || name.startsWith('date:');
+}
+
+function findUnknownOutputTemplateVariables(template: string): string[] {
+	const names = [...template.matchAll(new RegExp(TEMPLATE_VARIABLE_PATTERN.source, 'g'))].map(match => match[1]);
+	return [...new Set(names.filter(name => !isKnownOutputTemplateVariable(name)))];
+}
+
+// Fills in an output template in a single pass, so that {{variables}} in the output itself are left alone
+function renderOutputTemplate(template: string, values: OutputTemplateValues): string {
+	return template.replace(new RegExp(TEMPLATE_VARIABLE_PATTERN.source, 'g'), (match, name: string) => {
+		if (name === 'output' || name === 'original' || name === 'model' || name === 'prompt') {
+			return values[name];
+		}
+		if (name === 'date') {
+			return moment().format('YYYY-MM-DD');
+		}
+		if (name === 'time') {
+			return moment().format('HH:mm');
+		}
+		if (name.startsWith('date:')) {
+			return moment().format(name.slice('date:'.length));
+		}
+		return match;
+	});
+}
+
+// The prompt's own schema, or the default schema of its renderer
+function getStructuredSchema(structured: StructuredOutput): Record<string, unknown> {
+	return structured.schema?.trim()
+		? JSON.parse(structured.schema) as Record<string, unknown>
+		: DEFAULT_STRUCTURED_SCHEMAS[structured.renderer];
+}
+
+// Checks a value against the subset of JSON schema used for structured output: type, properties, required, items and enum
+function validateJsonSchema(value: unknown, schema: Record<string, unknown>, path = '$'): string[] {
+	const errors: string[] = [];
+
+	const type = schema.type;
+	if (typeof type === 'string') {
+		const actualType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+		const matches = type === 'integer' ? Number.isInteger(value) : actualType === type;
+		if (!matches) {
+			return [`${path} should be ${type}, got ${actualType}`];
+		}
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+		errors.push(`${path} should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+	}
+
+	if (value && typeof value === 'object' && !Array.isArray(value)) {
+		const record = value as Record<string, unknown>;
+		if (Array.isArray(schema.required)) {
+			for (const key of schema.required as string[]) {
+				if (!(key in record)) {
+					errors.push(`${path}.${key} is required`);
+				}
+			}
+		}
+		const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
+		if (properties) {
+			for (const key of Object.keys(properties)) {
+				if (key in record) {
+					errors.push(...validateJsonSchema(record[key], properties[key], `${path}.${key}`));
+				}
+			}
+		}
+	}
+
+	if (Array.isArray(value) && schema.items && typeof schema.items === 'object') {
+		value.forEach((item, index) => {
+			errors.push(...validateJsonSchema(item, schema.items as Record<string, unknown>, `${path}[${index}]`));
+		});
+	}
+
+	return errors;
+}
+
+// Finds the list to render: the value itself if it is an array, or the first array property of an object
+function findJsonArray(value: unknown): unknown[] {
+	if (Array.isArray(value)) {
+		return value;
+	}
+	if (value && typeof value === 'object') {
+		const record = value as Record<string, unknown>;
+		for (const key of Object.keys(record)) {
+			if (Array.isArray(record[key])) {
+				return record[key] as unknown[];
+			}
+		}
+	}
+	return [];
+}
+
+// Returns the first non-empty string property among the given keys
+function pickString(record: Record<string, unknown>, keys: string[]): string {
+	for (const key of keys) {
+		if (record[key] !== undefined && record[key] !== null && String(record[key]).trim()) {
+			return formatTemplateValue(record[key]).trim();
+		}
+	}
+	return '';
+}
+
+// Renders items as Obsidian tasks: "- [ ] owner — task 📅 date"
+function renderTaskList(value: unknown): string {
+	return findJsonArray(value).map(item => {
+		if (typeof item !== 'object' || item === null) {
+			return `- [ ] ${formatTemplateValue(item)}`;
+		}
+		const record = item as Record<string, unknown>;
+		const task = pickString(record, ['task', 'text', 'title', 'description']);
+		const owner = pickString(record, ['owner', 'assignee', 'responsible']);
+		const due = pickString(record, ['due', 'date', 'deadline']);
+		return `- [ ] ${owner ? `${owner} — ` : ''}${task}${due ? ` 📅 ${due}` : ''}`;
+	}).join('\n');
+}
+
+function renderMarkdownTable(value: unknown): string {
+	const rows = findJsonArray(value).map(item => (
+		item && typeof item === 'object' ? item as Record<string, unknown> : {value: item}
+	));
+	if (rows.length === 0) {
+		return '';
+	}
+
+	// Columns in the order they first appear
+	const columns: string[] = [];
+	rows.forEach(row => Object.keys(row).forEach(key => {
+		if (!columns.includes(key)) {
+			columns.push(key);
+		}
+	}));
+
+	const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+	return [
+		`| ${columns.map(cell).join(' | ')} |`,
+		`| ${columns.map(() => '---').join(' | ')} |`,
+		...rows.map(row => `| ${columns.map(column => cell(formatTemplateValue(row[column]))).join(' | ')} |`)
+	].join('\n');
+}
+
+// Describes where in a note the output goes
+interface OutputPlacement {
+	// Range of the note replaced by the output, as character offsets
+	from: number;
+	to: number;
+	// Produces the text written into the range for a (possibly partial) response
+	render: (response: string) => string;
+}
+
+const FRONTMATTER_PATTERN = /^---\n[\s\S]*?\n---(\n|$)/;
+
+// Returns the offset right after the frontmatter, or 0 if the note has none
+function getContentStart(text: string): number {
+	const match = FRONTMATTER_PATTERN.exec(text);
+	return match ? match[0].length : 0;
+}
+
+// Returns the offset where the section under the given heading ends, or null if there is no such heading
+function findSectionEnd(text: string, heading: string): number | null {
+	let offset = 0;
+	let level: number | null = null;
+
+	for (const line of text.split('\n')) {
+		const match = /^(#{1,6})\s+(.*?)\s*$/.exec(line);
+		if (match) {
+			if (level === null && match[2] === heading) {
+				level = match[1].length;
+			} else if (level !== null && match[1].length <= level) {
+				return offset;
+			}
+		}
+		offset += line.length + 1;
+	}
+
+	return level === null ? null : text.length;
+}
+
+interface EditorInput {
+	noteText: string;
+	selection: string;
+	inputText: string;
+	processedNote: ProcessedNote | null;
+}
+
+// A note produced by formatProcessedNote: generated sections followed by the original transcript callout
+interface ProcessedNote {
+	originalText: string;
+	// Offset where the "# Original Transcript" heading starts
+	transcriptStart: number;
+	// Generated sections tagged with the id of the prompt that produced them
+	sections: {promptId: string, from: number, to: number}[];
+}
+
+// The callout type and folding can be changed in the prompt's output format
+const TRANSCRIPT_BLOCK_PATTERN = /^# Original Transcript\n> \[![\w-]+\][+-]? ORIGINAL TRANSCRIPTION\n((?:>.*(?:\n|$))*)/m;
+const AI_SECTION_PATTERN = /%% ai-notes:start (.+?) %%\n[\s\S]*?%% ai-notes:end \1 %%/;
+
+function parseProcessedNote(text: string): ProcessedNote | null {
+	const transcriptMatch = TRANSCRIPT_BLOCK_PATTERN.exec(text);
+	if (!transcriptMatch) {
+		return null;
+	}
+
+	// Undo the quoting applied by formatProcessedNote
+	const originalText = transcriptMatch[1]
+		.replace(/\n+$/, '')
+		.split('\n')
+		.map(line => line.replace(/^> ?/, ''))
+		.join('\n');
+
+	return {originalText, transcriptStart: transcriptMatch.index, sections: findAiSections(text)};
+}
+
+// Sections wrapped in ai-notes markers by formatAiSection, wherever they are in the note
+function findAiSections(text: string): ProcessedNote['sections'] {
+	const sections: ProcessedNote['sections'] = [];
+	const sectionPattern = new RegExp(AI_SECTION_PATTERN.source, 'g');
+	let match: RegExpExecArray | null;
+	while ((match = sectionPattern.exec(text)) !== null) {
+		sections.push({promptId: match[1], from: match.index, to: match.index + match[0].length});
+	}
+	return sections;
+}
+
+// A replacement of the text between two offsets
+interface TextChange {
+	from: number;
+	to: number;
+	text: string;
+}
+
+// Applies changes that refer to offsets in the unchanged text
+function applyTextChanges(text: string, changes: TextChange[]): string {
+	return [...changes].sort((a, b) => b.from - a.from)
+		.reduce((result, change) => result.slice(0, change.from) + change.text + result.slice(change.to), text);
+}
+
+// Writes the output into an editor, either token by token while streaming or all at once. A run can take minutes,
+// so tokens only go into the editor while it shows the note and the output range is unchanged. Otherwise the
+// complete output goes to the note once the run is done, at the end of the note if its place cannot be found.
+class EditorOutputWriter {
+	private view: MarkdownView;
+	private file: TFile | null;
+	private placement: OutputPlacement;
+	private originalText: string;
+	// Text currently occupying the placement range, null until something was written
+	private writtenText: string | null = null;
+	private insertOffset = 0;
+	// Set once streaming stopped because the note was switched or edited at the output
+	private detached = false;
+
+	constructor(view: MarkdownView, placement: OutputPlacement) {
+		this.view = view;
+		this.file = view.file;
+		this.placement = placement;
+		this.originalText = view.editor.getValue().slice(placement.from, placement.to);
+	}
+
+	write(token: string): void {
+		if (this.detached || !this.isInEditor()) {
+			this.detached = true;
+			return;
+		}
+
+		const editor = this.view.editor;
+		if (this.writtenText === null) {
+			// Write the surrounding layout first, then insert tokens where the response goes
+			const skeleton = this.placement.render('');
+			editor.replaceRange(skeleton, editor.offsetToPos(this.placement.from), editor.offsetToPos(this.placement.to));
+			this.writtenText = skeleton;
+			this.insertOffset = this.placement.from + this.getResponseOffset();
+		}
+
+		editor.replaceRange(token, editor.offsetToPos(this.insertOffset));
+		const at = this.insertOffset - this.placement.from;
+		this.writtenText = this.writtenText.slice(0, at) + token + this.writtenText.slice(at);
+		this.insertOffset += token.length;
+	}
+
+	async finish(response: string): Promise<void> {
+		const output = this.placement.render(response);
+		let appended = false;
+		await this.applyChanges(text => {
+			const range = this.findRange(text);
+			if (range) {
+				return [{...range, text: output}];
+			}
+			appended = true;
+			const separator = text.endsWith('\n') ? '\n' : '\n\n';
+			return [...this.removeWritten(text, ''), {from: text.length, to: text.length, text: `${separator}${response}\n`}];
+		});
+		this.writtenText = null;
+
+		if (appended) {
+			new Notice('The note changed while the output was generated, so it was added at the end of the note');
+		} else if (this.view.file === this.file) {
+			this.view.editor.setCursor(this.view.editor.offsetToPos(this.placement.from + this.getResponseOffset()));
+		}
+	}
+
+	// Restores the original text if anything was written
+	async revert(): Promise<void> {
+		if (this.writtenText === null) {
+			return;
+		}
+		await this.applyChanges(text => {
+			const range = this.findRange(text);
+			return range ? [{...range, text: this.originalText}] : this.removeWritten(text, this.originalText);
+		});
+		this.writtenText = null;
+	}
+
+	// Whether the editor still shows the note with the output range as it was left
+	private isInEditor(): boolean {
+		if (this.view.file !== this.file) {
+			return false;
+		}
+		const editor = this.view.editor;
+		const current = this.writtenText ?? this.originalText;
+		const end = this.placement.from + current.length;
+		const lastLine = editor.lastLine();
+		const length = editor.posToOffset({line: lastLine, ch: editor.getLine(lastLine).length});
+		return end <= length
+			&& editor.getRange(editor.offsetToPos(this.placement.from), editor.offsetToPos(end)) === current;
+	}
+
+	// The output range if it is still where it was
+	private findRange(text: string): {from: number, to: number} | null {
+		const current = this.writtenText ?? this.originalText;
+		const to = this.placement.from + current.length;
+		return text.slice(this.placement.from, to) === current ? {from: this.placement.from, to} : null;
+	}
+
+	// Replaces the text written so far wherever it moved to, if it is found exactly once
+	private removeWritten(text: string, replacement: string): TextChange[] {
+		const written = this.writtenText;
+		if (!written) {
+			return [];
+		}
+		const index = text.indexOf(written);
+		if (index === -1 || text.indexOf(written, index + 1) !== -1) {
+			return [];
+		}
+		return [{from: index, to: index + written.length, text: replacement}];
+	}
+
+	// Changes the editor while it shows the note, otherwise the note's file
+	private async applyChanges(getChanges: (text: string) => TextChange[]): Promise<void> {
+		if (this.view.file === this.file) {
+			const editor = this.view.editor;
+			editor.transaction({
+				changes: getChanges(editor.getValue()).map(change => ({
+					from: editor.offsetToPos(change.from),
+					to: editor.offsetToPos(change.to),
+					text: change.text
+				}))
+			});
+			return;
+		}
+
+		if (!this.file) {
+			throw new Error('The note has not been saved to a file');
+		}
+		await this.view.app.vault.process(this.file, text => applyTextChanges(text, getChanges(text)));
+	}
+
+	// Offset of the response within the rendered output
+	private getResponseOffset(): number {
+		const marker = '\u0000';
+		return this.placement.render(marker).indexOf(marker);
+	}
+}
+
+// A persistent notice with a Cancel button for long running operations
+class ProgressNotice {
+	private notice: Notice;
+	private textEl: HTMLElement;
+	private buttonsEl: HTMLElement;
+
+	constructor(text: string, onCancel: () => void) {
+		const fragment = createFragment(el => {
+			this.textEl = el.createDiv({text});
+			this.buttonsEl = el.createDiv({cls: 'progress-notice-buttons'});
+		});
+		this.addButton('Cancel', onCancel);
+		this.notice = new Notice(fragment, 0);
+	}
+
+	addButton(text: string, onClick: () => void): HTMLButtonElement {
+		const button = this.buttonsEl.createEl('button', {text});
+		button.addEventListener('click', (evt) => {
+			// Keep the click from dismissing the notice before the action is handled
+			evt.stopPropagation();
+			onClick();
+		});
+		return button;
+	}
+
+	setText(text: string): void {
+		this.textEl.setText(text);
+	}
+
+	hide(): void {
+		this.notice.hide();
+	}
+}
+
+// A run of a prompt or pipeline on a note, with the note before and after so either can be restored
+interface HistoryEntry {
+	id: string;
+	notePath: string;
+	promptId: string;
+	promptName: string;
+	// Hash of the prompt's settings, changes whenever the prompt is edited
+	promptVersion: string;
+	model: string;
+	options?: GenerationOptions;
+	startedAt: number;
+	finishedAt: number;
+	inputHash: string;
+	output: string;
+	noteBefore: string;
+	noteAfter: string;
+}
+
+const MAX_HISTORY_ENTRIES_PER_NOTE = 20;
+const MAX_HISTORY_ENTRIES = 500;
+// The whole history is rewritten after every run, so the oldest entries are dropped beyond this many characters
+const MAX_HISTORY_SIZE = 10 * 1024 * 1024;
+
+// Approximate size of an entry in the history file, dominated by the note contents
+function getHistoryEntrySize(entry: HistoryEntry): number {
+	return entry.output.length + entry.noteBefore.length + entry.noteAfter.length;
+}
+
+// Past runs. They are kept in a file in the plugin folder since the note contents would make the settings large.
+class RunHistory {
+	private readonly adapter: DataAdapter;
+	private readonly path: string;
+	private entries: HistoryEntry[] = [];
+	private listeners = new Set<() => void>();
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				this.entries = JSON.parse(await this.adapter.read(this.path)) as HistoryEntry[];
+			}
+		} catch (error) {
+			console.error("Error loading the run history:", error);
+			this.entries = [];
+		}
+	}
+
+	// Calls the listener whenever the history changes, returns a function that removes it
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	// Entries of the note, newest first
+	forNote(path: string): HistoryEntry[] {
+		return this.entries.filter(entry => entry.notePath === path).reverse();
+	}
+
+	async add(entry: HistoryEntry): Promise<void> {
+		this.entries.push(entry);
+
+		// Drop the oldest entries of the note, then the oldest entries overall
+		const noteEntries = this.entries.filter(e => e.notePath === entry.notePath);
+		if (noteEntries.length > MAX_HISTORY_ENTRIES_PER_NOTE) {
+			const dropped = new Set(noteEntries.slice(0, noteEntries.length - MAX_HISTORY_ENTRIES_PER_NOTE));
+			this.entries = this.entries.filter(e => !dropped.has(e));
+		}
+		this.entries = this.entries.slice(-MAX_HISTORY_ENTRIES);
+
+		// Keep the newest entry even if it is larger than the limit on its own
+		let size = this.entries.reduce((total, e) => total + getHistoryEntrySize(e), 0);
+		while (size > MAX_HISTORY_SIZE && this.entries.length > 1) {
+			size -= getHistoryEntrySize(this.entries.shift() as HistoryEntry);
+		}
+
+		await this.save();
+	}
+
+	async renameNote(oldPath: string, newPath: string): Promise<void> {
+		const entries = this.entries.filter(entry => entry.notePath === oldPath);
+		if (entries.length === 0) {
+			return;
+		}
+		entries.forEach(entry => {
+			entry.notePath = newPath;
+		});
+		await this.save();
+	}
+
+	async clearNote(path: string): Promise<void> {
+		const entries = this.entries.filter(entry => entry.notePath !== path);
+		if (entries.length === this.entries.length) {
+			return;
+		}
+		this.entries = entries;
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		await this.adapter.write(this.path, JSON.stringify(this.entries));
+		this.listeners.forEach(listener => listener());
+	}
+}
+
+// A part of a note in the semantic index
+interface IndexedPassage {
+	text: string;
+	// Normalized embedding as base64-encoded 32-bit floats, which is much smaller than a JSON array
+	vector: string;
+}
+
+interface IndexedNote {
+	// Modification time of the note when it was indexed
+	mtime: number;
+	passages: IndexedPassage[];
+}
+
+interface IndexData {
+	// Embeddings of different models cannot be compared, so the index is rebuilt when the model changes
+	model: string;
+	notes: Record<string, IndexedNote>;
+}
+
+interface RelatedPassage {
+	path: string;
+	text: string;
+	// Cosine similarity to the query
+	score: number;
+}
+
+// Passages are short enough for a focused embedding and for several of them to fit into a prompt
+const PASSAGE_LENGTH = 1500;
+const PASSAGE_OVERLAP = 200;
+const EMBEDDING_BATCH_SIZE = 16;
+// Long queries such as whole transcripts are searched with their first passages
+const MAX_QUERY_PASSAGES = 8;
+// The index is written to disk at this interval while it is updated, so that an interrupted update keeps its progress.
+// Writing it by time rather than after every few notes keeps a first build of a large vault from rewriting it over and over.
+const INDEX_SAVE_INTERVAL = 60 * 1000;
+// Changed notes are indexed once the vault has been quiet for this long
+const INDEX_UPDATE_DELAY = 30 * 1000;
+// Renamed notes are saved to the index once renaming has stopped, e.g. after moving a folder
+const INDEX_RENAME_SAVE_DELAY = 2 * 1000;
+const MAX_RELATED_NOTES = 10;
+
+function normalizeVector(vector: number[]): Float32Array {
+	const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+	return Float32Array.from(vector, value => value / length);
+}
+
+function dotProduct(a: Float32Array, b: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < a.length && i < b.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+// Embeddings of the notes in the vault, kept in a file in the plugin folder and updated incrementally
+class EmbeddingIndex {
+	private readonly adapter: DataAdapter;
+	private readonly path: string;
+	private data: IndexData = {model: '', notes: {}};
+	// Decoded vectors by note path, so that searches do not decode the whole index every time
+	private vectors = new Map<string, Float32Array[]>();
+	private changed = false;
+
+	constructor(adapter: DataAdapter, path: string) {
+		this.adapter = adapter;
+		this.path = path;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.adapter.exists(this.path)) {
+				this.data = JSON.parse(await this.adapter.read(this.path)) as IndexData;
+			}
+		} catch (error) {
+			console.error("Error loading the semantic index:", error);
+			this.data = {model: '', notes: {}};
+		}
+	}
+
+	get noteCount(): number {
+		return Object.keys(this.data.notes).length;
+	}
+
+	get model(): string {
+		return this.data.model;
+	}
+
+	// Starts over when the index was built with another model
+	useModel(model: string): void {
+		if (this.data.model !== model) {
+			this.data = {model, notes: {}};
+			this.vectors.clear();
+			this.changed = true;
+		}
+	}
+
+	isStale(file: TFile): boolean {
+		return this.data.notes[file.path]?.mtime !== file.stat.mtime;
+	}
+
+	setNote(file: TFile, passages: string[], vectors: number[][]): void {
+		const normalized = vectors.map(normalizeVector);
+		this.data.notes[file.path] = {
+			mtime: file.stat.mtime,
+			passages: passages.map((text, i) => ({text, vector: arrayBufferToBase64(normalized[i].buffer as ArrayBuffer)}))
+		};
+		this.vectors.set(file.path, normalized);
+		this.changed = true;
+	}
+
+	// Drops the notes that were deleted or excluded since they were indexed
+	retainNotes(paths: Set<string>): void {
+		Object.keys(this.data.notes).filter(path => !paths.has(path)).forEach(path => {
+			delete this.data.notes[path];
+			this.vectors.delete(path);
+			this.changed = true;
+		});
+	}
+
+	// Only marks the index as changed, since renaming a folder renames every note in it
+	renameNote(oldPath: string, newPath: string): void {
+		const note = this.data.notes[oldPath];
+		if (!note) {
+			return;
+		}
+		this.data.notes[newPath] = note;
+		delete this.data.notes[oldPath];
+		this.vectors.delete(oldPath);
+		this.changed = true;
+	}
+
+	// The passages most similar to any of the query vectors, best first
+	search(queryVectors: number[][], count: number, include: (path: string) => boolean): RelatedPassage[] {
+		const queries = queryVectors.map(normalizeVector);
+		const results: RelatedPassage[] = [];
+		for (const [path, note] of Object.entries(this.data.notes)) {
+			if (!include(path)) {
+				continue;
+			}
+			const vectors = this.getVectors(path, note);
+			note.passages.forEach((passage, i) => {
+				const score = Math.max(...queries.map(query => dotProduct(query, vectors[i])));
+				results.push({path, text: passage.text, score});
+			});
+		}
+		return results.sort((a, b) => b.score - a.score).slice(0, count);
+	}
+
+	// Only writes the index when it changed, as it can be large
+	async save(): Promise<void> {
+		if (!this.changed) {
+			return;
+		}
+		await this.adapter.write(this.path, JSON.stringify(this.data));
+		this.changed = false;
+	}
+
+	private getVectors(path: string, note: IndexedNote): Float32Array[] {
+		let vectors = this.vectors.get(path);
+		if (!vectors) {
+			vectors = note.passages.map(passage => new Float32Array(base64ToArrayBuffer(passage.vector)));
+			this.vectors.set(path, vectors);
+		}
+		return vectors;
+	}
+}
+
+interface BatchFilter {
+	folder: string;
+	tag: string;
+	// Matched against the file path
+	query: string;
+}
+
+type BatchItemStatus = 'processed' | 'skipped' | 'failed';
+
+interface BatchResult {
+	file: TFile;
+	status: BatchItemStatus;
+	message?: string;
+	// The note the output was written to in the "new note" output mode
+	outputFile?: TFile;
+}
+
+// Pause state of a running batch. Pausing takes effect after the file that is currently being processed.
+class BatchQueue {
+	readonly files: TFile[];
+	private paused = false;
+	private resumeCallback: (() => void) | null = null;
+	onPauseChange: ((paused: boolean) => void) | null = null;
+
+	constructor(files: TFile[]) {
+		this.files = files;
+	}
+
+	isPaused(): boolean {
+		return this.paused;
+	}
+
+	pause(): void {
+		this.paused = true;
+		this.onPauseChange?.(true);
+	}
+
+	resume(): void {
+		this.paused = false;
+		this.onPauseChange?.(false);
+		if (this.resumeCallback) {
+			this.resumeCallback();
+			this.resumeCallback = null;
+		}
+	}
+
+	// Resolves once the queue is resumed, or right away when it is not paused or the signal is aborted
+	waitWhilePaused(signal: AbortSignal): Promise<void> {
+		if (!this.paused || signal.aborted) {
+			return Promise.resolve();
+		}
+		return new Promise(resolve => {
+			// Either way the other one is no longer needed
+			const done = () => {
+				signal.removeEventListener('abort', done);
+				this.resumeCallback = null;
+				resolve();
+			};
+			this.resumeCallback = done;
+			signal.addEventListener('abort', done);
+		});
+	}
+}
+
+export default class OllamaTranscriptProcessor extends Plugin {
+	settings: OllamaTranscriptProcessorSettings;
+	llmService: LLMService;
+	history: RunHistory;
+	embeddingIndex: EmbeddingIndex;
+	private activeGeneration: AbortController | null = null;
+	private activeBatch: BatchQueue | null = null;
+	private statusBarItem: HTMLElement | null = null;
+	// Prompts loaded from the prompt library folder and the notes they were read from
+	private libraryPrompts: Prompt[] = [];
+	private promptFiles = new Map<string, TFile>();
+	private reloadPromptLibrary = debounce(() => this.loadPromptLibrary(), 500, true);
+	// Ids of the commands registered for the individual prompts and pipelines
+	private promptCommandIds = new Set<string>();
+	// Notes waiting for the watch delay to pass, the notes queued for automatic processing and the note being processed
+	private watchTimers = new Map<string, number>();
+	private watchQueue: TFile[] = [];
+	private watchActivePath: string | null = null;
+	private watchController: AbortController | null = null;
+	// Set while the semantic index is being updated
+	private indexController: AbortController | null = null;
+	private scheduleIndexUpdate = debounce(() => this.updateIndex(false), INDEX_UPDATE_DELAY, true);
+	private scheduleIndexSave = debounce(() => {
+		this.embeddingIndex.save().catch(error => console.error("Error saving the semantic index:", error));
+	}, INDEX_RENAME_SAVE_DELAY, true);
+	// Counts connection checks, so that a slow answer to an earlier check does not overwrite the status of a later one
+	private connectionChecks = 0;
+
+	async onload() {
+		await this.loadSettings();
+
+		// Initialize the service for the selected provider
+		this.updateLLMService();
+
+		// Load the history of runs, keep it attached to renamed notes and drop it with deleted notes
+		this.history = new RunHistory(this.app.vault.adapter, normalizePath(`${this.manifest.dir}/history.json`));
+		await this.history.load();
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.history.renameNote(oldPath, file.path).catch(error => console.error("Error updating the run history:", error));
+		}));
+		this.registerEvent(this.app.vault.on('delete', file => {
+			this.history.clearNote(file.path).catch(error => console.error("Error updating the run history:", error));
+		}));
+
+		// Add a command for each prompt and pipeline so they can be bound to hotkeys
+		this.registerPromptCommands();
+
+		// Add ribbon icon
+		const ribbonIconEl = this.addRibbonIcon('file-text', 'Process with LLM prompt', (evt: MouseEvent) => {
+			this.openPromptSelectionModal();
+		});
+
+		// Add commands
+		this.addCommand({
+			id: 'process-with-llm-prompt',
+			name: 'Process with LLM prompt...',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						this.openPromptSelectionModal();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 're-run-last-prompt',
+			name: 'Re-run last prompt',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView && this.settings.lastUsedPromptId) {
+					if (!checking) {
+						const lastPrompt = this.findPromptOrPipeline(this.settings.lastUsedPromptId);
+						if (lastPrompt) {
+							this.processTranscriptWithPrompt(lastPrompt);
+						} else {
+							new Notice('Last used prompt not found. Please select a prompt first.');
+						}
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'preview-request',
+			name: 'Preview request...',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						new PromptSelectionModal(this.app, this, (item) => this.previewRequest(item)).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'preview-redaction',
+			name: 'Preview redaction of current note',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						this.previewRedaction(markdownView.editor);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'compare-models',
+			name: 'Compare models...',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						new PromptSelectionModal(this.app, this, (item) => {
+							if (isPipeline(item)) {
+								new Notice('Pipelines cannot be compared, choose a prompt');
+								return;
+							}
+							new ModelSelectionModal(this.app, this, item, (models) => this.compareModels(item, models)).open();
+						}).open();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'cancel-generation',
+			name: 'Cancel generation',
+			checkCallback: (checking: boolean) => {
+				if (this.activeGeneration) {
+					if (!checking) {
+						this.cancelGeneration();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'batch-process-notes',
+			name: 'Batch process notes...',
+			callback: () => {
+				new BatchFilterModal(this.app, this, (files) => this.openBatchPromptSelection(files)).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'toggle-batch-pause',
+			name: 'Pause or resume batch processing',
+			checkCallback: (checking: boolean) => {
+				if (this.activeBatch) {
+					if (!checking) {
+						this.toggleBatchPause();
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		// Add chat side panel
+		this.registerView(CHAT_VIEW_TYPE, (leaf) => new ChatView(leaf, this));
+
+		// Add run history side panel
+		this.registerView(HISTORY_VIEW_TYPE, (leaf) => new HistoryView(leaf, this));
+
+		this.addCommand({
+			id: 'show-history',
+			name: 'Show run history of current note',
+			callback: () => {
+				this.activateView(HISTORY_VIEW_TYPE);
+			}
+		});
+
+		this.addCommand({
+			id: 'open-chat',
+			name: 'Chat about current note',
+			callback: () => {
+				this.activateView(CHAT_VIEW_TYPE);
+			}
+		});
+
+		// Add file explorer context menu entries for folders and multiple selected files
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFolder) {
+				menu.addItem(item => item
+					.setTitle('Process folder with LLM prompt...')
+					.setIcon('file-text')
+					.onClick(() => this.openBatchPromptSelection(this.collectMarkdownFiles([file]))));
+			}
+		}));
+
+		// Add editor context menu entries for favorite prompts
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu) => {
+			this.getPrompts().filter(prompt => prompt.favorite).forEach(prompt => {
+				menu.addItem(item => item
+					.setTitle(`Process with "${prompt.name}"`)
+					.setIcon('star')
+					.onClick(() => this.processTranscriptWithPrompt(prompt)));
+			});
+		}));
+
+		this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+			menu.addItem(item => item
+				.setTitle('Process with LLM prompt...')
+				.setIcon('file-text')
+				.onClick(() => this.openBatchPromptSelection(this.collectMarkdownFiles(files))));
+		}));
+
+		// Add status bar indicator for the connection to the model server
+		this.statusBarItem = this.addStatusBarItem();
+		this.statusBarItem.addClass('llm-connection-status');
+		this.statusBarItem.onClickEvent(() => this.checkConnection().catch(() => {}));
+		this.registerInterval(window.setInterval(() => this.refreshConnectionStatus(), CONNECTION_CHECK_INTERVAL));
+		this.app.workspace.onLayoutReady(() => this.refreshConnectionStatus());
+
+		// Load the prompt library and reload it whenever one of its notes changes
+		this.app.workspace.onLayoutReady(async () => {
+			await this.loadPromptLibrary();
+			const onChange = (file: TAbstractFile, oldPath?: string) => {
+				if (this.isInPromptFolder(file.path) || (oldPath && this.isInPromptFolder(oldPath))) {
+					this.reloadPromptLibrary();
+				}
+			};
+			this.registerEvent(this.app.vault.on('create', file => onChange(file)));
+			this.registerEvent(this.app.vault.on('modify', file => onChange(file)));
+			this.registerEvent(this.app.vault.on('delete', file => onChange(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => onChange(file, oldPath)));
+		});
+
+		// Process new and modified notes that match a watch rule
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.metadataCache.on('changed', file => this.onWatchedFileChanged(file)));
+			this.registerEvent(this.app.vault.on('delete', file => this.clearWatchTimer(file.path)));
+		});
+
+		// Load the semantic index and keep it up to date as notes change
+		this.embeddingIndex = new EmbeddingIndex(this.app.vault.adapter, normalizePath(`${this.manifest.dir}/embeddings.json`));
+		this.app.workspace.onLayoutReady(async () => {
+			await this.embeddingIndex.load();
+			this.registerEvent(this.app.vault.on('create', file => this.onIndexedFileChanged(file)));
+			this.registerEvent(this.app.vault.on('modify', file => this.onIndexedFileChanged(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				this.embeddingIndex.renameNote(oldPath, file.path);
+				this.scheduleIndexSave();
+			}));
+		});
+
+		this.addCommand({
+			id: 'update-semantic-index',
+			name: 'Update semantic index',
+			callback: () => {
+				this.updateIndex(true);
+			}
+		});
+
+		this.addCommand({
+			id: 'find-related-notes',
+			name: 'Find related notes',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						this.findRelatedNotes(markdownView);
+					}
+					return true;
+				}
+				return false;
+			}
+		});
+
+		this.addCommand({
+			id: 'show-watch-log',
+			name: 'Show automatic processing log',
+			callback: () => {
+				new WatchLogModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'migrate-prompts-to-folder',
+			name: 'Move prompts to the prompt library folder',
+			callback: () => {
+				this.migratePromptsToFolder();
+			}
+		});
+
+		// Add settings tab
+		this.addSettingTab(new OllamaSettingTab(this.app, this));
+	}
+
+	onunload() {
+		// Clean up any resources
+		this.cancelGeneration();
+		this.watchController?.abort();
+		this.watchTimers.forEach(timer => window.clearTimeout(timer));
+		this.indexController?.abort();
+		this.scheduleIndexUpdate.cancel();
+		// Keep renames that were not saved yet
+		this.scheduleIndexSave.run();
+	}
+
+	cancelGeneration() {
+		if (this.activeGeneration) {
+			this.activeGeneration.abort();
+		}
+	}
+
+	updateLLMService() {
+		const requestConfig: RequestConfig = {
+			timeout: this.settings.requestTimeout,
+			maxRetries: this.settings.maxRetries
+		};
+		if (this.settings.provider === 'openai') {
+			this.llmService = new OpenAICompatibleService(this.settings.openaiBaseUrl, this.settings.openaiApiKey, this.settings.openaiContextLength, requestConfig);
+		} else {
+			this.llmService = new OllamaService(this.settings.ollamaHost, this.settings.ollamaApiKey, requestConfig, {
+				autoContextSize: this.settings.autoContextSize,
+				maxContextSize: this.settings.maxContextSize
+			});
+		}
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	// Replaces the commands of the individual prompts and pipelines. Ids stay the same on renames, so hotkeys are kept.
+	// Called whenever prompts or pipelines are added, renamed, removed or reloaded.
+	registerPromptCommands() {
+		this.promptCommandIds.forEach(id => this.removeCommand(id));
+		this.promptCommandIds.clear();
+
+		[...this.getPrompts(), ...this.settings.pipelines].forEach(item => {
+			const id = `${isPipeline(item) ? 'run-pipeline' : 'run-prompt'}-${item.id}`;
+			this.addCommand({
+				id: id,
+				name: isPipeline(item) ? `Run pipeline "${item.name}"` : `Run prompt "${item.name}"`,
+				checkCallback: (checking: boolean) => {
+					const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+					// Look the prompt up again in case it was edited since the command was registered
+					const current = this.findPromptOrPipeline(item.id);
+					if (markdownView && current) {
+						if (!checking) {
+							this.processTranscriptWithPrompt(current);
+						}
+						return true;
+					}
+					return false;
+				}
+			});
+			this.promptCommandIds.add(id);
+		});
+	}
+
+	// Prompts from the prompt library folder if one is set, otherwise from the settings
+	getPrompts(): Prompt[] {
+		return this.settings.promptFolder ? this.libraryPrompts : this.settings.prompts;
+	}
+
+	// Adds the prompt or updates the prompt with the same id
+	async savePrompt(prompt: Prompt) {
+		if (this.settings.promptFolder) {
+			await this.writePromptFile(prompt);
+			await this.loadPromptLibrary();
+			return;
+		}
+
+		const index = this.settings.prompts.findIndex(p => p.id === prompt.id);
+		if (index !== -1) {
+			this.settings.prompts[index] = prompt;
+		} else {
+			this.settings.prompts.push(prompt);
+		}
+		await this.saveSettings();
+		this.registerPromptCommands();
+	}
+
+	async deletePrompt(id: string) {
+		if (this.settings.promptFolder) {
+			const file = this.promptFiles.get(id);
+			if (file) {
+				await this.app.fileManager.trashFile(file);
+			}
+			await this.loadPromptLibrary();
+			return;
+		}
+
+		this.settings.prompts = this.settings.prompts.filter(p => p.id !== id);
+		await this.saveSettings();
+		this.registerPromptCommands();
+	}
+
+	// Adds the pipeline or updates the pipeline with the same id
+	async savePipeline(pipeline: Pipeline) {
+		const index = this.settings.pipelines.findIndex(p => p.id === pipeline.id);
+		if (index !== -1) {
+			this.settings.pipelines[index] = pipeline;
+		} else {
+			this.settings.pipelines.push(pipeline);
+		}
+		await this.saveSettings();
+		this.registerPromptCommands();
+	}
+
+	async deletePipeline(id: string) {
+		this.settings.pipelines = this.settings.pipelines.filter(p => p.id !== id);
+		await this.saveSettings();
+		this.registerPromptCommands();
+	}
+
+	// Markdown notes outside the excluded folders and the prompt library are indexed
+	private isIndexable(file: TAbstractFile): file is TFile {
+		return file instanceof TFile
+			&& file.extension === 'md'
+			&& !this.isInPromptFolder(file.path)
+			&& !this.settings.indexExcludedFolders.some(folder => folder.trim() && this.isInFolder(file, folder));
+	}
+
+	private onIndexedFileChanged(file: TAbstractFile) {
+		if (this.settings.autoUpdateIndex && this.isIndexable(file)) {
+			this.scheduleIndexUpdate();
+		}
+	}
+
+	// Whether a prompt, batch or watch run is using the model server
+	private isGenerating(): boolean {
+		return this.activeGeneration !== null || this.activeBatch !== null || this.watchController !== null;
+	}
+
+	// Embeds the notes that changed since they were last indexed. Automatic updates run without notices,
+	// and wait while prompts are running, since both would compete for the same machine.
+	async updateIndex(showProgress: boolean) {
+		if (this.indexController) {
+			if (showProgress) {
+				new Notice('The semantic index is already being updated');
+			}
+			return;
+		}
+		if (!showProgress && this.isGenerating()) {
+			this.scheduleIndexUpdate();
+			return;
+		}
+
+		const controller = new AbortController();
+		this.indexController = controller;
+		const progress = showProgress ? new ProgressNotice('Updating the semantic index...', () => controller.abort()) : null;
+		let deferred = false;
+		try {
+			const files = this.app.vault.getMarkdownFiles().filter(file => this.isIndexable(file));
+			this.embeddingIndex.useModel(this.settings.embeddingModel);
+			this.embeddingIndex.retainNotes(new Set(files.map(file => file.path)));
+
+			const staleFiles = files.filter(file => this.embeddingIndex.isStale(file));
+			let savedAt = Date.now();
+			for (let i = 0; i < staleFiles.length; i++) {
+				if (!showProgress && this.isGenerating()) {
+					deferred = true;
+					break;
+				}
+				progress?.setText(`Updating the semantic index: note ${i + 1} of ${staleFiles.length}...`);
+				const passages = splitIntoPassages(await this.app.vault.cachedRead(staleFiles[i]));
+				this.embeddingIndex.setNote(staleFiles[i], passages, await this.embedTexts(passages, controller.signal));
+				if (Date.now() - savedAt >= INDEX_SAVE_INTERVAL) {
+					await this.embeddingIndex.save();
+					savedAt = Date.now();
+				}
+			}
+
+			if (showProgress) {
+				new Notice(staleFiles.length > 0 ? `Indexed ${staleFiles.length} notes` : 'The semantic index is up to date');
+			}
+		} catch (error) {
+			if (isAbortError(error)) {
+				new Notice('Updating the semantic index was cancelled');
+			} else {
+				console.error('Error updating the semantic index:', error);
+				if (showProgress) {
+					new Notice(`Failed to update the semantic index: ${(error as Error).message}`);
+				}
+			}
+		} finally {
+			// Keep the notes that were indexed before the update stopped
+			await this.embeddingIndex.save();
+			progress?.hide();
+			this.indexController = null;
+			// Continue once the running prompts are done
+			if (deferred) {
+				this.scheduleIndexUpdate();
+			}
+		}
+	}
+
+	// Notes and search queries are redacted like prompts, since embedding them sends them to the server as well
+	private async embedTexts(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+		const redactor = this.createRedactor();
+		if (redactor) {
+			texts = texts.map(text => redactor.redact(text));
+		}
+		const vectors: number[][] = [];
+		for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+			vectors.push(...await this.llmService.embed(this.settings.embeddingModel, texts.slice(i, i + EMBEDDING_BATCH_SIZE), signal));
+		}
+		return vectors;
+	}
+
+	// Passages of other indexed notes that are most similar to the text, optionally only from notes in a folder
+	async findRelatedPassages(text: string, file: TFile | null, count: number, folder?: string, signal?: AbortSignal): Promise<RelatedPassage[]> {
+		if (this.embeddingIndex.noteCount === 0 || this.embeddingIndex.model !== this.settings.embeddingModel) {
+			throw new Error('The semantic index has not been built with the current embedding model. Run "Update semantic index" first.');
+		}
+
+		const queries = splitIntoPassages(text).slice(0, MAX_QUERY_PASSAGES);
+		if (queries.length === 0) {
+			return [];
+		}
+		const queryVectors = await this.embedTexts(queries, signal);
+
+		return this.embeddingIndex.search(queryVectors, count, path => {
+			const target = this.app.vault.getAbstractFileByPath(path);
+			return target instanceof TFile && target !== file && this.isIndexable(target) && this.isInFolder(target, folder || '');
+		});
+	}
+
+	async findRelatedNotes(view: MarkdownView) {
+		const text = view.editor.getSelection() || view.editor.getValue();
+		const notice = new Notice('Searching for related notes...', 0);
+		try {
+			// Search more passages than notes, since several passages often come from the same note
+			const passages = await this.findRelatedPassages(text, view.file, MAX_RELATED_NOTES * 5);
+			const notes = passages.filter((passage, i) => passages.findIndex(other => other.path === passage.path) === i);
+			if (notes.length === 0) {
+				new Notice('No related notes found');
+				return;
+			}
+			new RelatedNotesModal(this.app, notes.slice(0, MAX_RELATED_NOTES)).open();
+		} catch (error) {
+			new Notice(`Could not find related notes: ${(error as Error).message}`);
+		} finally {
+			notice.hide();
+		}
+	}
+
+	private isInPromptFolder(path: string): boolean {
+		const folder = this.settings.promptFolder ? normalizePath(this.settings.promptFolder) : '';
+		return folder !== '' && path.startsWith(`${folder}/`) && path.endsWith('.md');
+	}
+
+	async loadPromptLibrary() {
+		this.libraryPrompts = [];
+		this.promptFiles.clear();
+		const folder = this.settings.promptFolder ? this.app.vault.getAbstractFileByPath(normalizePath(this.settings.promptFolder)) : null;
+		if (!folder) {
+			this.registerPromptCommands();
+			return;
+		}
+
+		const invalidFiles: string[] = [];
+		for (const file of this.collectMarkdownFiles([folder])) {
+			try {
+				const prompt = parsePromptFile(await this.app.vault.read(file), file.basename);
+				if (this.promptFiles.has(prompt.id)) {
+					throw new Error(`Duplicate prompt id "${prompt.id}"`);
+				}
+				this.libraryPrompts.push(prompt);
+				this.promptFiles.set(prompt.id, file);
+			} catch (error) {
+				console.error(`Error loading prompt from ${file.path}:`, error);
+				invalidFiles.push(file.path);
+			}
+		}
+		this.libraryPrompts.sort((a, b) => a.name.localeCompare(b.name));
+		this.registerPromptCommands();
+
+		if (invalidFiles.length > 0) {
+			new Notice(`Could not load ${invalidFiles.length} prompt${invalidFiles.length === 1 ? '' : 's'} from the prompt library: ${invalidFiles.join(', ')}`);
+		}
+	}
+
+	private async writePromptFile(prompt: Prompt) {
+		const content = formatPromptFile(prompt);
+		const existingFile = this.promptFiles.get(prompt.id);
+		if (existingFile) {
+			await this.app.vault.modify(existingFile, content);
+			return;
+		}
+
+		const folder = normalizePath(this.settings.promptFolder);
+		if (!this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		// Characters that are not allowed in file names
+		const baseName = prompt.name.replace(/[\\/:*?"<>|#^[\]]/g, '') || prompt.id;
+		let path = `${folder}/${baseName}.md`;
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = `${folder}/${baseName} ${i}.md`;
+		}
+		this.promptFiles.set(prompt.id, await this.app.vault.create(path, content));
+	}
+
+	// Writes the prompts stored in the settings to the prompt library, skipping prompts that are already there
+	async migratePromptsToFolder() {
+		if (!this.settings.promptFolder) {
+			new Notice('Set a prompt library folder in the settings first');
+			return;
+		}
+
+		await this.loadPromptLibrary();
+		const prompts = this.settings.prompts.filter(prompt => !this.promptFiles.has(prompt.id));
+		try {
+			for (const prompt of prompts) {
+				await this.writePromptFile(prompt);
+			}
+		} catch (error) {
+			new Notice(`Failed to write prompts: ${(error as Error).message}`);
+			return;
+		} finally {
+			await this.loadPromptLibrary();
+		}
+		new Notice(`Moved ${prompts.length} prompt${prompts.length === 1 ? '' : 's'} to ${normalizePath(this.settings.promptFolder)}`);
+	}
+
+	openPromptSelectionModal() {
+		new PromptSelectionModal(this.app, this, (prompt) => {
+			this.processTranscriptWithPrompt(prompt);
+		}).open();
+	}
+
+	// Tests the connection and shows the result in the status bar
+	async checkConnection(): Promise<ConnectionStatus> {
+		const serverName = this.settings.provider === 'ollama' ? 'Ollama' : 'LLM server';
+		const check = ++this.connectionChecks;
+		try {
+			const status = await this.llmService.testConnection();
+			if (check === this.connectionChecks) {
+				this.setConnectionStatus(`${serverName}: connected`, 'is-connected',
+					`${status.version ? `Version ${status.version}, ` : ''}responded in ${status.latency} ms`);
+			}
+			return status;
+		} catch (error) {
+			if (check === this.connectionChecks) {
+				this.setConnectionStatus(`${serverName}: unreachable`, 'is-unreachable', (error as Error).message);
+			}
+			throw error;
+		}
+	}
+
+	// Checks the connection for the status bar, unless the indicator is hidden
+	refreshConnectionStatus(): void {
+		if (!this.settings.showConnectionStatus) {
+			this.statusBarItem?.hide();
+			return;
+		}
+		this.checkConnection().catch(() => {});
+	}
+
+	private setConnectionStatus(text: string, cls: string, tooltip: string) {
+		if (!this.statusBarItem) {
+			return;
+		}
+		this.statusBarItem.toggle(this.settings.showConnectionStatus);
+		this.statusBarItem.setText(text);
+		this.statusBarItem.removeClass('is-connected', 'is-unreachable');
+		this.statusBarItem.addClass(cls);
+		this.statusBarItem.setAttribute('aria-label', `${tooltip}. Click to check again.`);
+	}
+
+	async activateView(viewType: string) {
+		const existingLeaf = this.app.workspace.getLeavesOfType(viewType)[0];
+		if (existingLeaf) {
+			this.app.workspace.revealLeaf(existingLeaf);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (!leaf) {
+			return;
+		}
+		await leaf.setViewState({type: viewType, active: true});
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// Markdown files in the given files and folders, including subfolders
+	collectMarkdownFiles(files: TAbstractFile[]): TFile[] {
+		const result = new Map<string, TFile>();
+		const add = (file: TAbstractFile) => {
+			if (file instanceof TFile && file.extension === 'md') {
+				result.set(file.path, file);
+			}
+		};
+		for (const file of files) {
+			if (file instanceof TFolder) {
+				Vault.recurseChildren(file, add);
+			} else {
+				add(file);
+			}
+		}
+		return Array.from(result.values()).sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	findMarkdownFiles(filter: BatchFilter): TFile[] {
+		const query = filter.query.trim().toLowerCase();
+
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => this.isInFolder(file, filter.folder))
+			.filter(file => !query || file.path.toLowerCase().includes(query))
+			.filter(file => this.hasTag(file, filter.tag))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	// An empty folder matches every file
+	private isInFolder(file: TFile, folder: string): boolean {
+		const folderPath = normalizePath(folder.trim() || '/');
+		return folderPath === '/' || file.path.startsWith(`${folderPath}/`);
+	}
+
+	// An empty tag matches every file
+	private hasTag(file: TFile, tag: string): boolean {
+		const tagName = tag.trim().replace(/^#/, '').toLowerCase();
+		if (!tagName) {
+			return true;
+		}
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? getAllTags(cache) || [] : [];
+		// Nested tags match their parent, e.g. #meeting/weekly matches "meeting"
+		return tags.some(fileTag => {
+			const name = fileTag.replace(/^#/, '').toLowerCase();
+			return name === tagName || name.startsWith(`${tagName}/`);
+		});
+	}
+
+	// Rules with no condition set are ignored, so an empty rule does not process the whole vault
+	private matchesWatchRule(file: TFile, rule: WatchRule, frontmatter: Record<string, unknown>): boolean {
+		if (!rule.enabled || !(rule.folder.trim() || rule.tag.trim() || rule.property.trim())) {
+			return false;
+		}
+		return this.isInFolder(file, rule.folder)
+			&& this.hasTag(file, rule.tag)
+			&& (!rule.property.trim() || frontmatter[rule.property.trim()] === true);
+	}
+
+	private isProcessedByWatchRule(frontmatter: Record<string, unknown>, rule: WatchRule): boolean {
+		const processed = frontmatter[WATCH_PROCESSED_PROPERTY];
+		return Array.isArray(processed) ? processed.includes(rule.promptId) : processed === rule.promptId;
+	}
+
+	// Restarts the watch delay of a note that matches a rule it was not processed with yet
+	private onWatchedFileChanged(file: TFile) {
+		if (!this.settings.watchEnabled || file.extension !== 'md' || this.isInPromptFolder(file.path)
+			|| file.path === this.watchActivePath || this.watchQueue.includes(file)) {
+			return;
+		}
+
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const pending = this.settings.watchRules.some(rule =>
+			this.matchesWatchRule(file, rule, frontmatter) && !this.isProcessedByWatchRule(frontmatter, rule));
+		if (!pending) {
+			return;
+		}
+
+		this.clearWatchTimer(file.path);
+		this.watchTimers.set(file.path, window.setTimeout(() => {
+			this.watchTimers.delete(file.path);
+			this.watchQueue.push(file);
+			this.processWatchQueue();
+		}, WATCH_DELAY * 1000));
+	}
+
+	private clearWatchTimer(path: string) {
+		const timer = this.watchTimers.get(path);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+			this.watchTimers.delete(path);
+		}
+	}
+
+	// Processes the queued notes one after another in the background
+	private async processWatchQueue() {
+		if (this.watchController) {
+			return;
+		}
+
+		const controller = new AbortController();
+		this.watchController = controller;
+		try {
+			while (this.watchQueue.length > 0 && !controller.signal.aborted) {
+				// Wait for prompts and batches that are running, since they would compete for the same machine
+				if (this.activeGeneration) {
+					await sleep(WATCH_DELAY * 1000);
+					continue;
+				}
+
+				const file = this.watchQueue.shift() as TFile;
+				this.watchActivePath = file.path;
+				// Each note gets its own controller, so cancelling its run leaves the other queued notes to be processed.
+				// Unloading the plugin stops the queue and the run.
+				const fileController = new AbortController();
+				const onAbort = () => fileController.abort();
+				controller.signal.addEventListener('abort', onAbort);
+				// Keeps other generations from starting, and lets "Cancel generation" stop the run
+				this.activeGeneration = fileController;
+				try {
+					await this.processWatchedFile(file, fileController);
+				} catch (error) {
+					console.error(`Error automatically processing ${file.path}:`, error);
+				} finally {
+					controller.signal.removeEventListener('abort', onAbort);
+					this.watchActivePath = null;
+					this.activeGeneration = null;
+				}
+			}
+		} finally {
+			this.watchController = null;
+			// Only left over when the plugin is unloaded
+			this.watchQueue = [];
+		}
+	}
+
+	private async processWatchedFile(file: TFile, controller: AbortController) {
+		if (!this.settings.watchEnabled || !this.app.vault.getAbstractFileByPath(file.path)) {
+			return;
+		}
+
+		for (const rule of this.settings.watchRules) {
+			// Read the frontmatter again, it changes with every rule that processes the note
+			const frontmatter = parseFrontmatter(await this.app.vault.read(file));
+			if (!this.matchesWatchRule(file, rule, frontmatter) || this.isProcessedByWatchRule(frontmatter, rule)) {
+				continue;
+			}
+
+			const prompt = this.findPromptOrPipeline(rule.promptId);
+			if (!prompt) {
+				await this.addWatchLogEntry(file, rule.promptId, {file, status: 'failed', message: 'The prompt of the rule no longer exists'});
+				continue;
+			}
+
+			const progress = new ProgressNotice(`Automatically processing ${file.basename} with "${prompt.name}"...`, () => controller.abort());
+			let result: BatchResult;
+			try {
+				if (prompt.outputMode === 'replace-selection' || prompt.outputMode === 'insert-at-cursor') {
+					throw new Error(`The output mode "${OUTPUT_MODES[prompt.outputMode]}" needs an open note`);
+				}
+				result = await this.processFile(file, prompt, progress, controller.signal);
+				// Notes are skipped e.g. while they are still empty, so they are only marked once processed
+				if (result.status === 'skipped') {
+					continue;
+				}
+				// Mark the note, and the output note in the "new note" mode, so they are not processed again
+				await this.markProcessedByWatchRule(file, rule);
+				if (result.outputFile) {
+					await this.markProcessedByWatchRule(result.outputFile, rule);
+				}
+			} catch (error) {
+				if (isAbortError(error)) {
+					await this.addWatchLogEntry(file, prompt.name, {file, status: 'skipped', message: 'Cancelled'});
+					return;
+				}
+				console.error(`Error automatically processing ${file.path}:`, error);
+				result = {file, status: 'failed', message: (error as Error).message};
+			} finally {
+				progress.hide();
+			}
+
+			await this.addWatchLogEntry(file, prompt.name, result);
+			if (result.status === 'failed') {
+				new Notice(`Automatic processing of ${file.basename} failed: ${result.message}`);
+			}
+		}
+	}
+
+	private async markProcessedByWatchRule(file: TFile, rule: WatchRule) {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const processed = frontmatter[WATCH_PROCESSED_PROPERTY];
+			const promptIds: string[] = Array.isArray(processed) ? processed : processed ? [processed] : [];
+			if (!promptIds.includes(rule.promptId)) {
+				promptIds.push(rule.promptId);
+			}
+			frontmatter[WATCH_PROCESSED_PROPERTY] = promptIds;
+		});
+	}
+
+	private async addWatchLogEntry(file: TFile, promptName: string, result: BatchResult) {
+		this.settings.watchLog.unshift({
+			time: Date.now(),
+			path: file.path,
+			promptName,
+			status: result.status,
+			message: result.message
+		});
+		this.settings.watchLog = this.settings.watchLog.slice(0, MAX_WATCH_LOG_ENTRIES);
+		await this.saveSettings();
+	}
+
+	openBatchPromptSelection(files: TFile[]) {
+		if (files.length === 0) {
+			new Notice('No notes to process');
+			return;
+		}
+		new PromptSelectionModal(this.app, this, (prompt) => {
+			this.processFiles(files, prompt);
+		}).open();
+	}
+
+	toggleBatchPause() {
+		if (!this.activeBatch) {
+			return;
+		}
+		if (this.activeBatch.isPaused()) {
+			this.activeBatch.resume();
+		} else {
+			this.activeBatch.pause();
+		}
+	}
+
+	findPromptOrPipeline(id: string): Prompt | Pipeline | undefined {
+		return this.getPrompts().find(p => p.id === id) || this.settings.pipelines.find(p => p.id === id);
+	}
+
+	// Processes the files one after another, reporting per file errors at the end
+	async processFiles(files: TFile[], prompt: Prompt | Pipeline) {
+		if (prompt.outputMode === 'replace-selection' || prompt.outputMode === 'insert-at-cursor') {
+			new Notice(`The output mode "${OUTPUT_MODES[prompt.outputMode]}" needs an open note and cannot be used for batch processing`);
+			return;
+		}
+
+		if (this.activeGeneration) {
+			new Notice('A generation is already running. Cancel it before starting another one.');
+			return;
+		}
+
+		const controller = new AbortController();
+		this.activeGeneration = controller;
+		const queue = new BatchQueue(files);
+		this.activeBatch = queue;
+
+		const progress = new ProgressNotice(`Processing ${files.length} notes...`, () => this.cancelGeneration());
+		const pauseButton = progress.addButton('Pause', () => this.toggleBatchPause());
+		queue.onPauseChange = (paused) => {
+			pauseButton.setText(paused ? 'Resume' : 'Pause');
+		};
+
+		const results: BatchResult[] = [];
+		try {
+			for (let i = 0; i < files.length; i++) {
+				if (queue.isPaused()) {
+					progress.setText(`Paused after ${i} of ${files.length} notes`);
+				}
+				await queue.waitWhilePaused(controller.signal);
+				if (controller.signal.aborted) {
+					break;
+				}
+
+				const file = files[i];
+				progress.setText(`Processing ${i + 1} of ${files.length}: ${file.basename}`);
+				try {
+					results.push(await this.processFile(file, prompt, progress, controller.signal));
+				} catch (error) {
+					if (isAbortError(error)) {
+						break;
+					}
+					console.error(`Error processing ${file.path}:`, error);
+					results.push({file, status: 'failed', message: (error as Error).message});
+				}
+			}
+		} finally {
+			progress.hide();
+			this.activeGeneration = null;
+			this.activeBatch = null;
+		}
+
+		const count = (status: BatchItemStatus) => results.filter(result => result.status === status).length;
+		const summary = `${count('processed')} processed, ${count('skipped')} skipped, ${count('failed')} failed`;
+		new Notice(controller.signal.aborted ? `Batch cancelled: ${summary}` : `Batch finished: ${summary}`);
+
+		if (count('failed') > 0) {
+			new BatchReportModal(this.app, results).open();
+		}
+	}
+
+	// Processes a note in the background without opening it
+	async processFile(file: TFile, prompt: Prompt | Pipeline, progress: ProgressNotice, signal: AbortSignal): Promise<BatchResult> {
+		const noteText = await this.app.vault.read(file);
+		if (!noteText.trim()) {
+			return {file, status: 'skipped', message: 'The note is empty'};
+		}
+
+		const processedNote = parseProcessedNote(noteText);
+		if (this.isProcessedWithPrompt(file, prompt, noteText)) {
+			return {file, status: 'skipped', message: 'Already processed with this prompt'};
+		}
+		// The frontmatter stays out of the input, and out of the transcript callout when the output replaces the note
+		const inputText = processedNote ? processedNote.originalText : noteText.slice(getContentStart(noteText));
+		if (!inputText.trim()) {
+			return {file, status: 'skipped', message: 'The note is empty'};
+		}
+
+		const context = this.buildPromptContext(file, '');
+		const startedAt = Date.now();
+		const response = await this.generateOutput(prompt, this.normalizeInput(inputText).text, context, progress, signal);
+
+		let outputFile: TFile | undefined;
+		if (!response.trim()) {
+			// Nothing to write, e.g. when the prompt only set frontmatter properties
+		} else if (prompt.outputMode === 'new-note') {
+			outputFile = await this.createOutputNote(file, prompt, response, inputText, this.getOutputModel(prompt));
+		} else {
+			await this.app.vault.process(file, (currentText) => {
+				if (currentText !== noteText) {
+					throw new Error('The note was modified while it was being processed');
+				}
+				const placement = this.getOutputPlacement(prompt, noteText, noteText.length, noteText.length, inputText, processedNote, this.getOutputModel(prompt));
+				return noteText.slice(0, placement.from) + placement.render(response) + noteText.slice(placement.to);
+			});
+		}
+		await this.writeProperties(file, context.properties);
+		await this.recordRun(file, prompt, inputText, noteText, await this.app.vault.read(file), response, startedAt);
+
+		return {file, status: 'processed', outputFile};
+	}
+
+	// A note counts as processed when it contains this prompt's section, or when the prompt's output note exists
+	private isProcessedWithPrompt(file: TFile, prompt: OutputSettings, noteText: string): boolean {
+		if (prompt.outputMode === 'new-note') {
+			return this.app.vault.getAbstractFileByPath(this.getOutputNotePath(file, prompt)) !== null;
+		}
+		return findAiSections(noteText).some(section => section.promptId === prompt.id);
+	}
+
+	// The text a prompt processes in the editor, or null after telling the user why there is none
+	private getEditorInput(editor: Editor, prompt: OutputSettings): EditorInput | null {
+		const noteText = editor.getValue();
+		const outputMode = prompt.outputMode || 'replace-note';
+
+		if (!noteText.trim()) {
+			new Notice('The note is empty');
+			return null;
+		}
+
+		// Every mode except replacing the whole note works on the selection when there is one
+		const selection = editor.getSelection();
+		if (outputMode === 'replace-selection' && !selection.trim()) {
+			new Notice('Select the text to process first');
+			return null;
+		}
+		if (outputMode !== 'replace-note' && selection.trim()) {
+			return {noteText, selection, inputText: selection, processedNote: null};
+		}
+
+		// Re-processing a processed note works on the original transcript, not on the previous output.
+		// The frontmatter is left where it is, prompts can use it through {{frontmatter.name}}.
+		const processedNote = parseProcessedNote(noteText);
+		const inputText = processedNote ? processedNote.originalText : noteText.slice(getContentStart(noteText));
+		if (!inputText.trim()) {
+			new Notice('The note is empty');
+			return null;
+		}
+
+		return {noteText, selection, inputText, processedNote};
+	}
+
+	async processTranscriptWithPrompt(prompt: Prompt | Pipeline) {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active markdown view');
+			return;
+		}
+
+		const editor = activeView.editor;
+		const outputMode = prompt.outputMode || 'replace-note';
+		const input = this.getEditorInput(editor, prompt);
+		if (!input) {
+			return;
+		}
+		const {noteText, selection, inputText, processedNote} = input;
+
+		if (this.activeGeneration) {
+			new Notice('A generation is already running. Cancel it before starting another one.');
+			return;
+		}
+
+		// Save the last used prompt ID
+		this.settings.lastUsedPromptId = prompt.id;
+		await this.saveSettings();
+
+		// The note keeps the transcript as it is, only the model gets the compact version
+		const modelInput = this.normalizeInput(inputText);
+		if (modelInput.report) {
+			new Notice(modelInput.report);
+		}
+
+		const controller = new AbortController();
+		this.activeGeneration = controller;
+
+		// Show processing notification
+		const processingNotice = new ProgressNotice('Processing transcript...', () => this.cancelGeneration());
+
+		const writer = outputMode === 'new-note'
+			? null
+			: new EditorOutputWriter(activeView, this.getOutputPlacement(
+				prompt,
+				noteText,
+				editor.posToOffset(editor.getCursor('from')),
+				editor.posToOffset(editor.getCursor('to')),
+				inputText,
+				processedNote,
+				this.getOutputModel(prompt)
+			));
+
+		// The view can show another note by the time the run is done
+		const file = activeView.file;
+		try {
+			const context = this.buildPromptContext(file, selection);
+			const onToken = writer && this.settings.streamResponses ? (token: string) => writer.write(token) : undefined;
+			const startedAt = Date.now();
+			const response = await this.generateOutput(prompt, modelInput.text, context, processingNotice, controller.signal, onToken);
+
+			if (!response.trim()) {
+				// Nothing to write, e.g. when the prompt only set frontmatter properties
+				await writer?.revert();
+			} else if (writer) {
+				await writer.finish(response);
+			} else {
+				if (!file) {
+					throw new Error('The note has not been saved to a file');
+				}
+				const outputFile = await this.createOutputNote(file, prompt, response, inputText, this.getOutputModel(prompt));
+				await this.app.workspace.getLeaf('tab').openFile(outputFile);
+			}
+
+			// Save the editor first so that writing the frontmatter does not race with unsaved output
+			if (activeView.file === file) {
+				await activeView.save();
+			}
+			await this.writeProperties(file, context.properties);
+
+			if (file) {
+				await this.recordRun(file, prompt, inputText, noteText, await this.app.vault.read(file), response, startedAt);
+			}
+
+			// Close the processing notice
+			processingNotice.hide();
+
+			// Show success notice
+			new Notice('Transcript processed successfully');
+		} catch (error) {
+			// Close the processing notice
+			processingNotice.hide();
+
+			// A streamed run may already have written part of the response
+			const cancelled = isAbortError(error);
+			if (writer && !(cancelled && this.settings.keepPartialOnCancel)) {
+				await writer.revert().catch(revertError => console.error('Error removing the partial output:', revertError));
+			}
+
+			if (cancelled) {
+				new Notice('Generation cancelled');
+				return;
+			}
+
+			// Show error notice
+			new Notice(`Error processing transcript: ${(error as Error).message}`);
+			console.error('Error processing transcript:', error);
+		} finally {
+			this.activeGeneration = null;
+		}
+	}
+
+	// Adds the run to the history. A failure to record it does not fail the run. The model can be given when it
+	// is not the prompt's own, e.g. for an output picked in a model comparison.
+	async recordRun(file: TFile, item: Prompt | Pipeline, inputText: string, noteBefore: string, noteAfter: string, output: string, startedAt: number, model?: string) {
+		try {
+			const prompts = isPipeline(item)
+				? item.steps.map(step => this.getPrompts().find(p => p.id === step.promptId)).filter((p): p is Prompt => p !== undefined)
+				: [item];
+			const models = Array.from(new Set(prompts.map(prompt => prompt.model || this.settings.defaultModel)));
+
+			await this.history.add({
+				id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+				notePath: file.path,
+				promptId: item.id,
+				promptName: item.name,
+				// Pipelines change when one of their prompts changes
+				promptVersion: (await hashText(JSON.stringify(isPipeline(item) ? [item, ...prompts] : item))).slice(0, 8),
+				model: model ?? models.join(', '),
+				options: isPipeline(item) ? undefined : item.options,
+				startedAt,
+				finishedAt: Date.now(),
+				inputHash: await hashText(inputText),
+				output,
+				noteBefore,
+				noteAfter
+			});
+		} catch (error) {
+			console.error("Error recording the run in the history:", error);
+		}
+	}
+
+	// Runs the prompt on the current note with each model in turn, since running them at once would compete for the same machine
+	async compareModels(prompt: Prompt, models: string[]) {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active markdown view');
+			return;
+		}
+
+		const input = this.getEditorInput(activeView.editor, prompt);
+		if (!input) {
+			return;
+		}
+
+		if (this.activeGeneration) {
+			new Notice('A generation is already running. Cancel it before starting another one.');
+			return;
+		}
+
+		const controller = new AbortController();
+		this.activeGeneration = controller;
+		const progress = new ProgressNotice('Comparing models...', () => this.cancelGeneration());
+
+		const results: ModelComparisonResult[] = [];
+		try {
+			const context = this.buildPromptContext(activeView.file, input.selection);
+			const redactor = this.createRedactor();
+			const text = this.normalizeInput(input.inputText).text;
+			const images = prompt.includeImages ? await this.readEmbeddedImages(text, activeView.file) : [];
+			const modelText = redactor ? redactor.redact(text) : text;
+			const retrieved = await this.addRetrievedContext(await this.renderPromptTemplates(prompt, context), modelText, activeView.file, controller.signal);
+			const requestPrompt = redactor ? redactor.redactPrompt(retrieved.prompt) : retrieved.prompt;
+			const options: GenerationOptions | undefined = prompt.structuredOutput
+				? {...requestPrompt.options, format: getStructuredSchema(prompt.structuredOutput)}
+				: requestPrompt.options;
+
+			for (let i = 0; i < models.length; i++) {
+				progress.setText(`Running ${models[i]} (${i + 1} of ${models.length})...`);
+				const startedAt = Date.now();
+				try {
+					// Long inputs are split into parts for every model like in a normal run, and the time includes the parts
+					const modelPrompt: Prompt = {...requestPrompt, model: models[i], options: await this.addImages(models[i], options, images)};
+					const request = await this.prepareRequest(modelPrompt, modelText, progress, controller.signal);
+					const result = await this.llmService.generateTextWithStats(request.model, request.prompt, request.systemPrompt, modelPrompt.options, controller.signal);
+					result.stats.totalTime = Date.now() - startedAt;
+					result.text = redactor ? redactor.restore(result.text) : result.text;
+					// Structured output is parsed again when it is inserted, so sources can only follow free text
+					if (!prompt.structuredOutput) {
+						result.text = this.appendSources(result.text, retrieved.sources, activeView.file);
+					}
+					results.push({model: models[i], startedAt, ...result});
+				} catch (error) {
+					if (isAbortError(error)) {
+						throw error;
+					}
+					results.push({model: models[i], startedAt, error: (error as Error).message});
+				}
+			}
+		} catch (error) {
+			if (!isAbortError(error)) {
+				new Notice(`Error comparing models: ${(error as Error).message}`);
+				console.error('Error comparing models:', error);
+				return;
+			}
+			// Show the models that finished before the comparison was cancelled
+			new Notice('Comparison cancelled');
+			if (results.length === 0) {
+				return;
+			}
+		} finally {
+			progress.hide();
+			this.activeGeneration = null;
+		}
+
+		new ModelComparisonModal(this.app, this, prompt, results).open();
+	}
+
+	// Writes a response that was generated outside of a normal run, e.g. in a model comparison, where the prompt puts its output
+	async insertOutput(prompt: Prompt, response: string, model: string, startedAt: number) {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!activeView) {
+			new Notice('No active markdown view');
+			return;
+		}
+
+		const editor = activeView.editor;
+		const input = this.getEditorInput(editor, prompt);
+		if (!input) {
+			return;
+		}
+
+		try {
+			const context = this.buildPromptContext(activeView.file, input.selection);
+			const output = prompt.structuredOutput
+				? this.renderStructuredOutput(JSON.parse(response), prompt.structuredOutput.renderer, context)
+				: response;
+
+			if (!output.trim()) {
+				// Nothing to write, e.g. when the prompt only sets frontmatter properties
+			} else if (prompt.outputMode === 'new-note') {
+				if (!activeView.file) {
+					throw new Error('The note has not been saved to a file');
+				}
+				const outputFile = await this.createOutputNote(activeView.file, prompt, output, input.inputText, model);
+				await this.app.workspace.getLeaf('tab').openFile(outputFile);
+			} else {
+				await new EditorOutputWriter(activeView, this.getOutputPlacement(
+					prompt,
+					input.noteText,
+					editor.posToOffset(editor.getCursor('from')),
+					editor.posToOffset(editor.getCursor('to')),
+					input.inputText,
+					input.processedNote,
+					model
+				)).finish(output);
+			}
+			if (prompt.outputFormat?.recordGeneration && prompt.outputMode !== 'new-note') {
+				Object.assign(context.properties, this.getGenerationProperties(prompt, model));
+			}
+
+			await activeView.save();
+			await this.writeProperties(activeView.file, context.properties);
+			if (activeView.file) {
+				await this.recordRun(activeView.file, prompt, input.inputText, input.noteText, await this.app.vault.read(activeView.file), output, startedAt, model);
+			}
+		} catch (error) {
+			new Notice(`Error inserting the output: ${(error as Error).message}`);
+		}
+	}
+
+	// Shows what would be sent to the model for the current note, without sending it
+	async previewRequest(item: Prompt | Pipeline) {
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!activeView) {
 			new Notice('No active markdown view');
 			return;
 		}
 
-		const editor = activeView.editor;
-		const noteText = editor.getValue();
+		// Later pipeline steps process the output of earlier ones, so only the first step can be previewed
+		const prompt = isPipeline(item) ? this.getPrompts().find(p => p.id === item.steps[0]?.promptId) : item;
+		if (!prompt) {
+			new Notice('The pipeline has no steps');
+			return;
+		}
+
+		const input = this.getEditorInput(activeView.editor, item);
+		if (!input) {
+			return;
+		}
+
+		try {
+			const context = this.buildPromptContext(activeView.file, input.selection);
+			const modelInput = this.normalizeInput(input.inputText);
+			const redactor = this.createRedactor();
+			const modelText = redactor ? redactor.redact(modelInput.text) : modelInput.text;
+			const retrieved = await this.addRetrievedContext(await this.renderPromptTemplates(prompt, context), modelText, activeView.file);
+			const request = this.assembleRequest(redactor ? redactor.redactPrompt(retrieved.prompt) : retrieved.prompt, modelText);
+			const options: GenerationOptions = prompt.structuredOutput
+				? {...prompt.options, format: getStructuredSchema(prompt.structuredOutput)}
+				: {...prompt.options};
+
+			// Listed by path rather than added to the options, which would show their base64 content
+			const images = prompt.includeImages ? await this.readEmbeddedImages(modelInput.text, activeView.file) : null;
+			let imageSupport: boolean | null = null;
+			let contextLength: number | null = null;
+			let tokens = this.llmService.estimateTokenCount(request.prompt + "\n" + request.systemPrompt);
+			try {
+				if (images && images.length > 0) {
+					imageSupport = await this.llmService.supportsImages(request.model);
+				}
+				const countOptions = images && imageSupport !== false ? {...options, images: images.map(image => image.data)} : options;
+				contextLength = await this.llmService.getContextLength(request.model, options);
+				tokens = await this.llmService.getKnownPromptTokens(request.model, request.prompt, request.systemPrompt, countOptions);
+			} catch (error) {
+				// Show the preview without the context window when the server is not reachable
+			}
+
+			new RequestPreviewModal(this.app, this, {
+				item,
+				prompt,
+				request,
+				options,
+				tokens,
+				contextLength,
+				inputReport: modelInput.report,
+				redactions: redactor ? redactor.redactions : null,
+				images: images ? images.map(image => image.path) : null,
+				imageSupport
+			}).open();
+		} catch (error) {
+			new Notice(`Could not assemble the request: ${(error as Error).message}`);
+		}
+	}
+
+	// Shows what would be redacted from the selection, or from the note when nothing is selected
+	previewRedaction(editor: Editor) {
+		const redactor = this.createRedactor();
+		if (!redactor) {
+			new Notice('Redaction is turned off. Turn it on under "Redaction" in the settings.');
+			return;
+		}
+		const text = this.normalizeInput(editor.getSelection() || editor.getValue()).text;
+		new RedactionPreviewModal(this.app, redactor.redact(text), redactor.redactions).open();
+	}
+
+	// Compacts caption files and meeting tool exports into speaker turns, reporting how many tokens that saved
+	normalizeInput(text: string): {text: string, report: string | null} {
+		const normalized = this.settings.normalizeTranscripts ? normalizeTranscript(text) : null;
+		if (!normalized) {
+			return {text, report: null};
+		}
+
+		const before = this.llmService.estimateTokenCount(text);
+		const after = this.llmService.estimateTokenCount(normalized.text);
+		return {
+			text: normalized.text,
+			report: `Detected a ${TRANSCRIPT_FORMATS[normalized.format]} transcript, saving about ${before - after} tokens (${before} → ${after})`
+		};
+	}
+
+	// Runs a prompt or pipeline on the given text. Personal data is redacted before anything is sent to the model
+	// and restored in the output and properties.
+	async generateOutput(item: Prompt | Pipeline, text: string, context: PromptContext, progress: ProgressNotice, signal: AbortSignal, onToken?: (token: string) => void): Promise<string> {
+		// Read before redaction, which could change the links to the images
+		if (this.includesImages(item)) {
+			context.images = await this.readEmbeddedImages(text, context.file);
+		}
+
+		const redactor = this.createRedactor();
+		context.redactor = redactor;
+		if (redactor) {
+			text = redactor.redact(text);
+			onToken = onToken && redactor.restoreStream(onToken);
+		}
+
+		let output = isPipeline(item)
+			? await this.runPipeline(item, text, context, progress, signal, onToken)
+			: await this.runPrompt(item, text, context, progress, signal, onToken);
+
+		if (redactor) {
+			context.properties = redactor.restoreValue(context.properties) as Record<string, unknown>;
+			output = redactor.restore(output);
+		}
+		// Output notes record the generation in their own frontmatter, see createOutputNote
+		if (item.outputFormat?.recordGeneration && item.outputMode !== 'new-note') {
+			Object.assign(context.properties, this.getGenerationProperties(item, this.getOutputModel(item)));
+		}
+		return output;
+	}
+
+	// Null when redaction is turned off
+	createRedactor(): Redactor | null {
+		if (!this.settings.redactionEnabled) {
+			return null;
+		}
+		const names = this.settings.redactionCategories.includes('name') ? this.settings.redactedNames : [];
+		return new Redactor(this.settings.redactionCategories, names);
+	}
+
+	// Runs a single prompt. Structured prompts are not streamed, their JSON is validated and rendered instead.
+	async runPrompt(prompt: Prompt, text: string, context: PromptContext, progress: ProgressNotice, signal: AbortSignal, onToken?: (token: string) => void): Promise<string> {
+		const retrieved = await this.addRetrievedContext(await this.renderPromptTemplates(prompt, context), text, context.file, signal);
+		// Template variables and retrieved passages can contain personal data as well
+		let requestPrompt = context.redactor ? context.redactor.redactPrompt(retrieved.prompt) : retrieved.prompt;
+		if (prompt.includeImages && context.images) {
+			const model = prompt.model || this.settings.defaultModel;
+			requestPrompt = {...requestPrompt, options: await this.addImages(model, requestPrompt.options, context.images)};
+		}
+		if (prompt.structuredOutput) {
+			return await this.generateStructuredOutput(requestPrompt, prompt.structuredOutput, text, context, progress, signal);
+		}
+		const response = await this.generateResponse(requestPrompt, text, progress, signal, onToken);
+		return this.appendSources(response, retrieved.sources, context.file);
+	}
+
+	private includesImages(item: Prompt | Pipeline): boolean {
+		if (!isPipeline(item)) {
+			return item.includeImages === true;
+		}
+		return item.steps.some(step => this.getPrompts().find(prompt => prompt.id === step.promptId)?.includeImages);
+	}
+
+	// Images embedded in the text, read from the vault. Remote images and other embedded files are left out.
+	async readEmbeddedImages(text: string, file: TFile | null): Promise<EmbeddedImage[]> {
+		const files = new Map<string, TFile>();
+		for (const match of text.matchAll(IMAGE_EMBED_PATTERN)) {
+			const link = match[1] ?? match[2];
+			if (/^[a-z]+:/i.test(link)) {
+				continue;
+			}
+			let linkpath = link.trim();
+			try {
+				linkpath = decodeURI(linkpath);
+			} catch (error) {
+				// Not URL encoded, e.g. a file name containing %
+			}
+			const imageFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, file ? file.path : '');
+			if (imageFile && IMAGE_EXTENSIONS.includes(imageFile.extension.toLowerCase())) {
+				files.set(imageFile.path, imageFile);
+			}
+		}
+
+		if (files.size > MAX_PROMPT_IMAGES) {
+			new Notice(`The text embeds ${files.size} images, only the first ${MAX_PROMPT_IMAGES} are sent`);
+		}
+		const images: EmbeddedImage[] = [];
+		for (const imageFile of Array.from(files.values()).slice(0, MAX_PROMPT_IMAGES)) {
+			images.push({path: imageFile.path, data: arrayBufferToBase64(await this.app.vault.readBinary(imageFile))});
+		}
+		return images;
+	}
+
+	// Adds the images to the options if the model can take them. Whether it can is only known for Ollama models,
+	// others get the images either way.
+	async addImages(model: string, options: GenerationOptions | undefined, images: EmbeddedImage[]): Promise<GenerationOptions | undefined> {
+		if (images.length === 0) {
+			return options;
+		}
+		if (await this.llmService.supportsImages(model) === false) {
+			new Notice(`${model} cannot take images, so the ${images.length} image${images.length > 1 ? 's' : ''} in the note ${images.length > 1 ? 'are' : 'is'} not sent. Use a vision model such as llava or gemma3 for this prompt.`);
+			return options;
+		}
+		return {...options, images: images.map(image => image.data)};
+	}
+
+	// Adds the passages of related notes from the semantic index to the prompt body, returning the notes they came from
+	async addRetrievedContext(prompt: Prompt, text: string, file: TFile | null, signal?: AbortSignal): Promise<{prompt: Prompt, sources: TFile[]}> {
+		if (!prompt.retrieval) {
+			return {prompt, sources: []};
+		}
+		const passages = await this.findRelatedPassages(text, file, prompt.retrieval.count, prompt.retrieval.folder, signal);
+		if (passages.length === 0) {
+			return {prompt, sources: []};
+		}
+
+		const sources: TFile[] = [];
+		const contextText = passages.map(passage => {
+			const source = this.app.vault.getAbstractFileByPath(passage.path) as TFile;
+			if (!sources.includes(source)) {
+				sources.push(source);
+			}
+			return `Source: ${this.app.fileManager.generateMarkdownLink(source, file ? file.path : '')}\n${passage.text}`;
+		}).join('\n\n---\n\n');
+
+		return {
+			prompt: {
+				...prompt,
+				body: `${prompt.body}\n\nThe following passages from related notes may help. When you use one, cite it with its source link exactly as given.\n====CONTEXT_BEGIN====\n${contextText}\n====CONTEXT_END====`
+			},
+			sources
+		};
+	}
+
+	// Links the notes the retrieved context came from below the output
+	appendSources(response: string, sources: TFile[], file: TFile | null): string {
+		if (sources.length === 0 || !response.trim()) {
+			return response;
+		}
+		const links = sources.map(source => this.app.fileManager.generateMarkdownLink(source, file ? file.path : ''));
+		return `${response}\n\nSources: ${links.join(', ')}`;
+	}
+
+	// Asks for JSON matching the schema, retrying with the validation errors until the response is valid
+	async generateStructuredOutput(prompt: Prompt, structured: StructuredOutput, text: string, context: PromptContext, progress: ProgressNotice, signal: AbortSignal): Promise<string> {
+		const schema = getStructuredSchema(structured);
+		const maxRetries = structured.maxRetries !== undefined ? structured.maxRetries : 2;
+		const structuredPrompt: Prompt = {...prompt, options: {...prompt.options, format: schema}};
+
+		let attemptPrompt = structuredPrompt;
+		let errors: string[] = [];
+		for (let attempt = 0; attempt <= maxRetries; attempt++) {
+			if (attempt > 0) {
+				progress.setText(`The response was not valid, retrying (${attempt} of ${maxRetries})...`);
+			}
+
+			const response = await this.generateResponse(attemptPrompt, text, progress, signal);
+			try {
+				const value = JSON.parse(response);
+				errors = validateJsonSchema(value, schema);
+				if (errors.length === 0) {
+					return this.renderStructuredOutput(value, structured.renderer, context);
+				}
+			} catch (error) {
+				errors = [`invalid JSON (${(error as Error).message})`];
+			}
+
+			attemptPrompt = {
+				...structuredPrompt,
+				body: `${prompt.body}\n\nA previous answer did not match the required JSON schema: ${errors.join('; ')}. Answer only with JSON that matches the schema.`
+			};
+		}
+
+		throw new Error(`The model did not return valid JSON after ${maxRetries + 1} attempts: ${errors.join('; ')}`);
+	}
+
+	// Frontmatter properties are collected in the context, so nothing is returned for the note body
+	private renderStructuredOutput(value: unknown, renderer: StructuredRenderer, context: PromptContext): string {
+		switch (renderer) {
+			case 'tasks':
+				return renderTaskList(value);
+			case 'table':
+				return renderMarkdownTable(value);
+			case 'frontmatter': {
+				if (!context.file) {
+					throw new Error('Frontmatter properties can only be written to a saved note');
+				}
+				if (!value || typeof value !== 'object' || Array.isArray(value)) {
+					throw new Error('Frontmatter output has to be a JSON object');
+				}
+				Object.assign(context.properties, value);
+				return '';
+			}
+		}
+	}
+
+	async writeProperties(file: TFile | null, properties: Record<string, unknown>): Promise<void> {
+		if (!file || Object.keys(properties).length === 0) {
+			return;
+		}
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			Object.keys(properties).forEach(key => {
+				frontmatter[key] = properties[key];
+			});
+		});
+	}
+
+	// Runs the pipeline's steps in order. Kept outputs are combined into one text with a heading per step.
+	async runPipeline(pipeline: Pipeline, text: string, context: PromptContext, progress: ProgressNotice, signal: AbortSignal, onToken?: (token: string) => void): Promise<string> {
+		if (pipeline.steps.length === 0) {
+			throw new Error(`Pipeline "${pipeline.name}" has no steps`);
+		}
+
+		const keptOutputs: {name: string, output: string}[] = [];
+		let previousOutput = text;
+
+		for (let i = 0; i < pipeline.steps.length; i++) {
+			const step = pipeline.steps[i];
+			const prompt = this.getPrompts().find(p => p.id === step.promptId);
+			if (!prompt) {
+				throw new Error(`Step ${i + 1} of pipeline "${pipeline.name}" uses a prompt that no longer exists`);
+			}
+
+			const isLastStep = i === pipeline.steps.length - 1;
+			progress.setText(`Step ${i + 1} of ${pipeline.steps.length}: ${prompt.name}`);
+
+			// Only the last step is streamed, after the outputs of the previous kept steps
+			let stepOnToken: ((token: string) => void) | undefined;
+			if (isLastStep && onToken) {
+				if (keptOutputs.length > 0) {
+					onToken(`${this.formatPipelineOutput(keptOutputs)}\n\n## ${prompt.name}\n`);
+				}
+				stepOnToken = onToken;
+			}
+
+			const input = step.input === 'previous' ? previousOutput : text;
+			const output = await this.runPrompt(prompt, input, context, progress, signal, stepOnToken);
+
+			if (step.keepOutput || isLastStep) {
+				keptOutputs.push({name: prompt.name, output});
+			}
+			previousOutput = output;
+		}
+
+		return this.formatPipelineOutput(keptOutputs);
+	}
+
+	private formatPipelineOutput(outputs: {name: string, output: string}[]): string {
+		// Steps that only wrote frontmatter properties have no output for the note
+		const nonEmpty = outputs.filter(({output}) => output.trim());
+		if (nonEmpty.length === 1) {
+			return nonEmpty[0].output;
+		}
+		return nonEmpty.map(({name, output}) => `## ${name}\n${output}`).join('\n\n');
+	}
+
+	// The model, prompt and system prompt sent for a prompt whose template variables are filled in
+	assembleRequest(prompt: Prompt, text: string): AssembledRequest {
+		return {
+			model: prompt.model || this.settings.defaultModel,
+			// Use the prompt's system instruction
+			systemPrompt: (prompt.systemPrompt || "").split(TEXT_VARIABLE).join(text),
+			// Prepare the prompt with the transcript
+			prompt: this.buildFullPrompt(prompt.body, text, prompt.systemPrompt)
+		};
+	}
+
+	// Runs a prompt on the given text, splitting it into chunks when it does not fit into the context window.
+	// Tokens are passed to onToken as they arrive if it is given.
+	async generateResponse(prompt: Prompt, text: string, progress: ProgressNotice, signal: AbortSignal, onToken?: (token: string) => void): Promise<string> {
+		const {model, prompt: fullPrompt, systemPrompt} = await this.prepareRequest(prompt, text, progress, signal);
+
+		if (onToken) {
+			return await this.llmService.generateTextStream(model, fullPrompt, systemPrompt, onToken, prompt.options, signal);
+		}
+
+		// Call the model API
+		return await this.llmService.generateText(model, fullPrompt, systemPrompt, prompt.options, signal);
+	}
+
+	// The request that runs the prompt. Inputs that do not fit into the context window are processed in parts first,
+	// and the request combines the partial results.
+	async prepareRequest(prompt: Prompt, text: string, progress: ProgressNotice, signal: AbortSignal): Promise<AssembledRequest> {
+		const request = this.assembleRequest(prompt, text);
+		if (!this.settings.chunkingEnabled) {
+			return request;
+		}
+
+		const contextLength = await this.llmService.getContextLength(request.model, prompt.options);
+		const tokens = await this.llmService.countPromptTokens(request.model, request.prompt, request.systemPrompt, prompt.options, signal);
+		if (tokens < contextLength) {
+			return request;
+		}
+
+		const partialResults = await this.processInChunks(prompt, text, contextLength, progress, signal);
+		return {...request, prompt: await this.combinePartialResults(prompt, partialResults, request.systemPrompt, contextLength, progress, signal)};
+	}
+
+	getOutputPlacement(prompt: OutputSettings, noteText: string, selectionFrom: number, selectionTo: number, inputText: string, processedNote: ProcessedNote | null, model: string): OutputPlacement {
+		const format = (response: string, defaultTemplate: string) => this.formatOutput(prompt, response, inputText, model, defaultTemplate);
+		// Output added to the note is tagged with its prompt, so batches can skip notes that already have it
+		const tagged = (response: string) => this.formatAiSection(prompt.id, format(response, DEFAULT_OUTPUT_TEMPLATE));
+		switch (prompt.outputMode || 'replace-note') {
+			case 'replace-selection':
+				return {from: selectionFrom, to: selectionTo, render: response => format(response, DEFAULT_OUTPUT_TEMPLATE)};
+			case 'insert-at-cursor':
+				return {from: selectionTo, to: selectionTo, render: response => `\n${format(response, DEFAULT_OUTPUT_TEMPLATE)}\n`};
+			case 'prepend': {
+				const start = getContentStart(noteText);
+				return {from: start, to: start, render: response => `${tagged(response)}\n\n`};
+			}
+			case 'append-under-heading': {
+				const heading = prompt.outputHeading || 'AI Notes';
+				const sectionEnd = findSectionEnd(noteText, heading);
+				const end = sectionEnd === null ? noteText.length : sectionEnd;
+				// Replace the whitespace at the end of the section so the spacing stays consistent
+				const from = noteText.slice(0, end).trimEnd().length;
+				if (sectionEnd === null) {
+					const separator = from > 0 ? '\n\n' : '';
+					return {from, to: end, render: response => `${separator}## ${heading}\n\n${tagged(response)}\n`};
+				}
+				const trailing = end < noteText.length ? '\n\n' : '\n';
+				return {from, to: end, render: response => `\n\n${tagged(response)}${trailing}`};
+			}
+			default: {
+				const section = (response: string) => this.formatAiSection(prompt.id, format(response, DEFAULT_SECTION_TEMPLATE));
+				if (processedNote) {
+					return this.getReprocessingPlacement(prompt, noteText, processedNote, section);
+				}
+				return {from: getContentStart(noteText), to: noteText.length, render: response => this.formatProcessedNote(inputText, section(response), prompt.outputFormat)};
+			}
+		}
+	}
+
+	// Lays out the response with the output template of the prompt or pipeline
+	formatOutput(prompt: OutputSettings, response: string, inputText: string, model: string, defaultTemplate: string): string {
+		return renderOutputTemplate(prompt.outputFormat?.template || defaultTemplate, {
+			output: response,
+			original: inputText,
+			model,
+			prompt: prompt.name
+		});
+	}
+
+	// Model named in output templates and generation properties. Pipelines name the models of all their steps.
+	getOutputModel(item: Prompt | Pipeline): string {
+		const prompts = isPipeline(item)
+			? item.steps.map(step => this.getPrompts().find(prompt => prompt.id === step.promptId))
+			: [item];
+		const models = prompts.map(prompt => prompt?.model || this.settings.defaultModel);
+		return [...new Set(models)].join(', ');
+	}
+
+	getGenerationProperties(prompt: OutputSettings, model: string): Record<string, unknown> {
+		return {
+			[GENERATION_PROMPT_PROPERTY]: prompt.name,
+			[GENERATION_MODEL_PROPERTY]: model,
+			[GENERATION_DATE_PROPERTY]: moment().format('YYYY-MM-DDTHH:mm')
+		};
+	}
+
+	private getOutputNoteFolder(sourceFile: TFile): string {
+		return normalizePath(this.settings.newNoteFolder.trim() || (sourceFile.parent ? sourceFile.parent.path : '/'));
+	}
+
+	// Path of the note created by the given prompt for the source note, without numbering for duplicates
+	private getOutputNotePath(sourceFile: TFile, prompt: OutputSettings, suffix = ''): string {
+		const folder = this.getOutputNoteFolder(sourceFile);
+		// Characters that are not allowed in file names
+		const baseName = `${sourceFile.basename} - ${prompt.name}`.replace(/[\\/:*?"<>|#^[\]]/g, '');
+		return `${folder === '/' ? '' : `${folder}/`}${baseName}${suffix}.md`;
+	}
+
+	// Writes the output to a new note that links back to the source note
+	async createOutputNote(sourceFile: TFile, prompt: OutputSettings, response: string, inputText: string, model: string): Promise<TFile> {
+		const folder = this.getOutputNoteFolder(sourceFile);
+		if (folder !== '/' && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		let path = this.getOutputNotePath(sourceFile, prompt);
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = this.getOutputNotePath(sourceFile, prompt, ` ${i}`);
+		}
+
+		const sourceLink = this.app.fileManager.generateMarkdownLink(sourceFile, path);
+		const output = this.formatOutput(prompt, response, inputText, model, DEFAULT_OUTPUT_TEMPLATE);
+		// The generation is recorded in the note that was generated, not in the source note
+		const frontmatter = prompt.outputFormat?.recordGeneration
+			? `---\n${stringifyYaml(this.getGenerationProperties(prompt, model))}---\n\n`
+			: '';
+		return await this.app.vault.create(path, `${frontmatter}${output}\n\n---\nSource: ${sourceLink}\n`);
+	}
+
+	buildPromptContext(file: TFile | null, selection: string): PromptContext {
+		const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+		return {
+			file,
+			properties: {},
+			title: file ? file.basename : '',
+			selection,
+			frontmatter: cache?.frontmatter || {},
+			tags: cache ? getAllTags(cache) || [] : [],
+			readEmbed: async (link: string) => {
+				// Accept both {{embed:[[Note|alias]]}} and {{embed:Note}}
+				const linkpath = link.replace(/^!?\[\[/, '').replace(/\]\]$/, '').split('|')[0].split('#')[0].trim();
+				const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, file ? file.path : '');
+				if (!target) {
+					throw new Error(`Embedded note "${linkpath}" not found`);
+				}
+				return await this.app.vault.cachedRead(target);
+			}
+		};
+	}
+
+	// Returns a copy of the prompt with the template variables in its body and system prompt filled in
+	async renderPromptTemplates(prompt: Prompt, context: PromptContext): Promise<Prompt> {
+		return {
+			...prompt,
+			body: await renderTemplate(prompt.body, context),
+			systemPrompt: prompt.systemPrompt ? await renderTemplate(prompt.systemPrompt, context) : prompt.systemPrompt
+		};
+	}
+
+	// Puts the text where {{text}} is, or appends it after the body when neither the body nor the system prompt
+	// reference it. A system prompt with {{text}} already carries the text, so it is not sent twice.
+	buildFullPrompt(body: string, text: string, systemPrompt = ''): string {
+		if (body.includes(TEXT_VARIABLE)) {
+			return body.split(TEXT_VARIABLE).join(text);
+		}
+		if (systemPrompt.includes(TEXT_VARIABLE)) {
+			return body;
+		}
+
+		return `${body}
+			\n
+			====TEXT_BEGIN====\n
+			${text}
+			====TEXT_END====
+			`;
+	}
+
+	// Map step of the map-reduce processing: runs the prompt over each chunk of the text
+	private async processInChunks(prompt: Prompt, text: string, contextLength: number, progress: ProgressNotice, signal: AbortSignal): Promise<string[]> {
+		// Leave room for the prompt itself and for the model's answer
+		const overheadTokens = this.llmService.estimateTokenCount(prompt.body + (prompt.systemPrompt || ""));
+		const chunkTokens = Math.min(this.settings.chunkSize, Math.floor(contextLength / 2) - overheadTokens);
+		if (chunkTokens <= 0) {
+			throw new Error(`The prompt alone is too long for the model's context window (${contextLength} tokens)`);
+		}
+
+		const overlapTokens = Math.min(this.settings.chunkOverlap, Math.floor(chunkTokens / 4));
+		const chunks = splitIntoChunks(text, chunkTokens * 4, overlapTokens * 4);
+
+		// Images are sent once with the combined request rather than with every part
+		const options: GenerationOptions = {...prompt.options};
+		delete options.images;
+
+		// The text goes into the system prompt if that is where {{text}} is, see buildFullPrompt
+		const textLocation = !prompt.body.includes(TEXT_VARIABLE) && prompt.systemPrompt?.includes(TEXT_VARIABLE) ? 'in the system prompt' : 'below';
+
+		const results: string[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			progress.setText(`Processing chunk ${i + 1} of ${chunks.length}...`);
+			const chunkBody = `${prompt.body}\n\nThe text ${textLocation} is part ${i + 1} of ${chunks.length} of a longer text. Process only this part.`;
+			results.push(await this.llmService.generateText(
+				prompt.model || this.settings.defaultModel,
+				this.buildFullPrompt(chunkBody, chunks[i], prompt.systemPrompt),
+				(prompt.systemPrompt || "").split(TEXT_VARIABLE).join(chunks[i]),
+				options,
+				signal
+			));
+		}
+		return results;
+	}
+
+	// Reduce step of the map-reduce processing: returns the prompt that combines the partial results. Results that
+	// do not fit into one request together are combined in groups first, as often as needed.
+	private async combinePartialResults(prompt: Prompt, results: string[], systemPrompt: string, contextLength: number, progress: ProgressNotice, signal: AbortSignal): Promise<string> {
+		const model = prompt.model || this.settings.defaultModel;
+		const buildCombinePrompt = (parts: string[]) => this.buildFullPrompt(
+			this.settings.combinePrompt,
+			parts.map((result, index) => `## Part ${index + 1}\n${result}`).join('\n\n')
+		);
+		// Like the parts of the map step, groups are sent without images
+		const options: GenerationOptions = {...prompt.options};
+		delete options.images;
+
+		for (;;) {
+			progress.setText('Combining partial results...');
+			const combinePrompt = buildCombinePrompt(results);
+			if (results.length === 1 || await this.llmService.countPromptTokens(model, combinePrompt, systemPrompt, prompt.options, signal) < contextLength) {
+				return combinePrompt;
+			}
+
+			// Each group gets as many results as fit into half of the context window
+			const groupTokens = Math.floor(contextLength / 2) - this.llmService.estimateTokenCount(this.settings.combinePrompt + systemPrompt);
+			const groups: string[][] = [];
+			for (const result of results) {
+				const group = groups[groups.length - 1];
+				if (group && this.llmService.estimateTokenCount([...group, result].join('\n\n')) <= groupTokens) {
+					group.push(result);
+				} else {
+					groups.push([result]);
+				}
+			}
+			if (groups.length === results.length) {
+				throw new Error(`The partial results are too long to be combined in the model's context window (${contextLength} tokens). Use a smaller chunk size or a larger context size.`);
+			}
+
+			const combined: string[] = [];
+			for (let i = 0; i < groups.length; i++) {
+				progress.setText(`Combining partial results: group ${i + 1} of ${groups.length}...`);
+				combined.push(await this.llmService.generateText(model, buildCombinePrompt(groups[i]), systemPrompt, options, signal));
+			}
+			results = combined;
+		}
+	}
+
+	// Replaces only the section generated by this prompt, keeping other prompts' sections and the original transcript
+	private getReprocessingPlacement(prompt: OutputSettings, noteText: string, processedNote: ProcessedNote, render: (response: string) => string): OutputPlacement {
+		const existing = processedNote.sections.find(section => section.promptId === prompt.id);
+		if (existing) {
+			return {from: existing.from, to: existing.to, render};
+		}
+
+		// Notes processed before sections were tagged have untagged AI notes in front of the transcript
+		if (processedNote.sections.length === 0 && noteText.slice(0, processedNote.transcriptStart).includes('# AI Notes')) {
+			return {from: getContentStart(noteText), to: processedNote.transcriptStart, render: response => `\n${render(response)}\n\n`};
+		}
+
+		return {from: processedNote.transcriptStart, to: processedNote.transcriptStart, render: response => `${render(response)}\n\n`};
+	}
+
+	// Generated sections are wrapped in comment markers so they can be found and replaced on re-runs
+	formatAiSection(promptId: string, content: string): string {
+		return `%% ai-notes:start ${promptId} %%
+${content}
+%% ai-notes:end ${promptId} %%`;
+	}
+
+	formatProcessedNote(originalText: string, section: string, format?: OutputFormat): string {
+		if (format?.dropOriginal) {
+			return `\n${section}\n`;
+		}
+
+		// Format the original text as a callout, collapsed if the prompt asks for it
+		const originalBlock = originalText.split('\n')
+			.map(line => `> ${line}`)
+			.join('\n');
+		const callout = `[!${format?.calloutType || DEFAULT_CALLOUT_TYPE}]${format?.collapsed ? '-' : ''}`;
+
+		// Combine into the final format
+		return `
+${section}
+
+# Original Transcript
+> ${callout} ORIGINAL TRANSCRIPTION
+${originalBlock}
+
+`;
+	}
+}
+
+// Notes related to the current note, best match first, with the passage that matched
+class RelatedNotesModal extends FuzzySuggestModal<RelatedPassage> {
+	passages: RelatedPassage[];
+
+	constructor(app: App, passages: RelatedPassage[]) {
+		super(app);
+		this.passages = passages;
+		this.setPlaceholder("Open a related note");
+	}
+
+	getItems(): RelatedPassage[] {
+		return this.passages;
+	}
+
+	getItemText(passage: RelatedPassage): string {
+		return passage.path.replace(/\.md$/, '');
+	}
+
+	onChooseItem(passage: RelatedPassage, evt: MouseEvent | KeyboardEvent): void {
+		this.app.workspace.openLinkText(passage.path, '', evt instanceof MouseEvent && (evt.ctrlKey || evt.metaKey));
+	}
+
+	renderSuggestion(item: FuzzyMatch<RelatedPassage>, el: HTMLElement): void {
+		super.renderSuggestion(item, el);
+		el.createSpan({text: `${Math.round(item.item.score * 100)}%`, cls: "related-note-score"});
+		el.createDiv({text: item.item.text.slice(0, 200), cls: "related-note-passage"});
+	}
+}
+
+class PromptSelectionModal extends FuzzySuggestModal<Prompt | Pipeline> {
+	plugin: OllamaTranscriptProcessor;
+	prompts: Prompt[];
+	onChoosePrompt: (prompt: Prompt | Pipeline) => void;
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor, onChoosePrompt: (prompt: Prompt | Pipeline) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.prompts = plugin.getPrompts();
+		this.onChoosePrompt = onChoosePrompt;
+		this.setPlaceholder("Select a prompt or create a new one");
+	}
+
+	getItems(): (Prompt | Pipeline)[] {
+		return [...this.prompts, ...this.plugin.settings.pipelines];
+	}
+
+	getItemText(prompt: Prompt | Pipeline): string {
+		return prompt.name;
+	}
+
+	onChooseItem(prompt: Prompt | Pipeline, evt: MouseEvent | KeyboardEvent): void {
+		this.onChoosePrompt(prompt);
+	}
+
+	renderSuggestion(item: FuzzyMatch<Prompt | Pipeline>, el: HTMLElement): void {
+		super.renderSuggestion(item, el);
+
+		const selected = item.item;
+		if (isPipeline(selected)) {
+			el.createSpan({text: `Pipeline · ${selected.steps.length} steps`, cls: "pipeline-badge"});
+		}
+
+		// Add buttons for edit and delete
+		const buttonsContainer = el.createDiv({cls: "prompt-buttons"});
+
+		const editButton = new ExtraButtonComponent(buttonsContainer)
+			.setIcon("pencil")
+			.setTooltip(isPipeline(selected) ? "Edit pipeline" : "Edit prompt")
+			.onClick(() => {
+				this.close();
+				// Reopen the selection modal after saving
+				const reopen = () => new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
+				if (isPipeline(selected)) {
+					new PipelineEditModal(this.app, this.plugin, selected, async (updatedPipeline) => {
+						await this.plugin.savePipeline(updatedPipeline);
+						reopen();
+					}).open();
+					return;
+				}
+				new PromptEditModal(this.app, this.plugin, selected, async (updatedPrompt) => {
+					await this.plugin.savePrompt(updatedPrompt);
+					reopen();
+				}).open();
+			});
+
+		const deleteButton = new ExtraButtonComponent(buttonsContainer)
+			.setIcon("trash")
+			.setTooltip(isPipeline(selected) ? "Delete pipeline" : "Delete prompt")
+			.onClick(async () => {
+				// Confirm deletion
+				if (confirm(`Are you sure you want to delete the ${isPipeline(selected) ? "pipeline" : "prompt"} "${selected.name}"?`)) {
+					// Remove the prompt or pipeline
+					if (isPipeline(selected)) {
+						await this.plugin.deletePipeline(selected.id);
+					} else {
+						await this.plugin.deletePrompt(selected.id);
+					}
+					// Refresh the modal
+					this.prompts = this.plugin.getPrompts();
+					this.close();
+					new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
+				}
+			});
+	}
+
+	onOpen(): void {
+		super.onOpen();
+
+		// Add a button to create a new prompt
+		const {contentEl} = this;
+		const newPromptButton = new ButtonComponent(contentEl)
+   .setButtonText("New prompt")
+			.onClick(() => {
+				this.close();
+				const newPrompt: Prompt = {
+					id: Date.now().toString(),
+					name: "New prompt",
+					body: ""
+				};
+				new PromptEditModal(this.app, this.plugin, newPrompt, async (createdPrompt) => {
+					await this.plugin.savePrompt(createdPrompt);
+					// Reopen the selection modal
+					new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
+				}).open();
+			});
+
+		// Add CSS class to the button
+		newPromptButton.buttonEl.addClass("new-prompt-button");
+	}
+}
+
+// Layout settings shared by the prompt and pipeline editors. Edits the output format of the given settings in place.
+function renderOutputFormatSettings(containerEl: HTMLElement, settings: OutputSettings): void {
+	const format = settings.outputFormat = {...settings.outputFormat};
+
+	new Setting(containerEl)
+		.setName("Output template")
+		.setDesc("How the output is written. Use {{output}} for the response, and optionally {{original}}, {{model}}, {{prompt}}, {{date}}, {{time}} or {{date:FORMAT}}. Leave empty for the default layout.")
+		.addTextArea(text => {
+			text.setPlaceholder(DEFAULT_SECTION_TEMPLATE)
+				.setValue(format.template || "")
+				.onChange(value => {
+					format.template = value.trim() ? value : undefined;
+				});
+			text.inputEl.rows = 4;
+		});
+
+	new Setting(containerEl)
+		.setName("Original text callout")
+		.setDesc("Callout type the original text is kept in when the output replaces the note, e.g. quote or note")
+		.addText(text => text
+			.setPlaceholder(DEFAULT_CALLOUT_TYPE)
+			.setValue(format.calloutType || "")
+			.onChange(value => {
+				format.calloutType = value.trim() || undefined;
+			}));
+
+	new Setting(containerEl)
+		.setName("Collapse original text")
+		.addToggle(toggle => toggle
+			.setValue(format.collapsed || false)
+			.onChange(value => {
+				format.collapsed = value || undefined;
+			}));
+
+	new Setting(containerEl)
+		.setName("Drop original text")
+		.setDesc("Replace the note with the output alone. The original text can still be restored from the run history.")
+		.addToggle(toggle => toggle
+			.setValue(format.dropOriginal || false)
+			.onChange(value => {
+				format.dropOriginal = value || undefined;
+			}));
+
+	new Setting(containerEl)
+		.setName("Record generation")
+		.setDesc(`Add the prompt, model and time of the run to the frontmatter (${GENERATION_PROMPT_PROPERTY}, ${GENERATION_MODEL_PROPERTY}, ${GENERATION_DATE_PROPERTY})`)
+		.addToggle(toggle => toggle
+			.setValue(format.recordGeneration || false)
+			.onChange(value => {
+				format.recordGeneration = value || undefined;
+			}));
+}
+
+// Returns the problem with the output format, if any, and drops its empty fields so the defaults apply
+function checkOutputFormat(settings: OutputSettings): string | null {
+	const format = settings.outputFormat;
+	if (!format) {
+		return null;
+	}
+	if (format.template !== undefined) {
+		if (!format.template.includes('{{output}}')) {
+			return "The output template must contain {{output}}";
+		}
+		const unknownVariables = findUnknownOutputTemplateVariables(format.template);
+		if (unknownVariables.length > 0) {
+			return `Unknown output template variables: ${unknownVariables.map(name => `{{${name}}}`).join(", ")}`;
+		}
+	}
+	// Other characters would keep re-runs from finding the original text, see TRANSCRIPT_BLOCK_PATTERN
+	if (format.calloutType !== undefined && !/^[\w-]+$/.test(format.calloutType)) {
+		return "The callout type can only contain letters, digits, - and _";
+	}
+
+	(Object.keys(format) as (keyof OutputFormat)[]).forEach(key => {
+		if (format[key] === undefined) {
+			delete format[key];
+		}
+	});
+	if (Object.keys(format).length === 0) {
+		delete settings.outputFormat;
+	}
+	return null;
+}
+
+class PromptEditModal extends Modal {
+	plugin: OllamaTranscriptProcessor;
+	prompt: Prompt;
+	onSave: (prompt: Prompt) => void;
+	nameInput: TextComponent;
+	bodyInput: TextAreaComponent;
+	systemPromptInput: TextAreaComponent;
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor, prompt: Prompt, onSave: (prompt: Prompt) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.prompt = {...prompt}; // Clone to avoid modifying the original
+		if (!this.prompt.systemPrompt) {
+			this.prompt.systemPrompt = ""; // Initialize if not present
+		}
+		this.prompt.options = {...prompt.options};
+		if (prompt.structuredOutput) {
+			this.prompt.structuredOutput = {...prompt.structuredOutput};
+		}
+		if (prompt.retrieval) {
+			this.prompt.retrieval = {...prompt.retrieval};
+		}
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName(this.prompt.id ? "Edit prompt" : "Create prompt").setHeading();
+
+		// Name input
+		new Setting(contentEl)
+			.setName("Name")
+			.setDesc("A short, descriptive name for this prompt")
+			.addText(text => {
+				this.nameInput = text;
+				text.setValue(this.prompt.name)
+					.onChange(value => {
+						this.prompt.name = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Favorite")
+			.setDesc("Show this prompt in the editor context menu")
+			.addToggle(toggle => toggle
+				.setValue(this.prompt.favorite || false)
+				.onChange(value => {
+					this.prompt.favorite = value;
+				}));
+
+		// System Prompt input
+		new Setting(contentEl).setName("System instruction").setHeading();
+		contentEl.createEl("p", {
+			text: "Define the AI's role and general behavior. This is sent as the system instruction to the model. The same template variables as in the prompt body can be used.",
+			cls: "setting-item-description"
+		});
+
+		const systemPromptContainer = contentEl.createDiv();
+		this.systemPromptInput = new TextAreaComponent(systemPromptContainer)
+			.setValue(this.prompt.systemPrompt || "")
+			.onChange(value => {
+				this.prompt.systemPrompt = value;
+			});
+
+		// Add CSS class to the system prompt textarea
+		this.systemPromptInput.inputEl.addClass("system-prompt-input");
+
+		// Body input
+		new Setting(contentEl).setName("Prompt body").setHeading();
+		contentEl.createEl("p", {
+			text: "Write your specific instructions for the AI model. The transcript will be appended after this prompt. Text will be placed automatically between `====TEXT_BEGIN====` and `====TEXT_END====`. You may reference them in your prompt. Use {{text}} to place the transcript anywhere else instead. Available variables: {{title}}, {{date}}, {{date:FORMAT}}, {{time}}, {{selection}}, {{tags}}, {{frontmatter.name}} and {{embed:[[Other note]]}}.",
+			cls: "setting-item-description"
+		});
+
+		const textAreaContainer = contentEl.createDiv();
+		this.bodyInput = new TextAreaComponent(textAreaContainer)
+			.setValue(this.prompt.body)
+			.onChange(value => {
+				this.prompt.body = value;
+			});
+
+		// Add CSS class to the textarea
+		this.bodyInput.inputEl.addClass("prompt-body-input");
+
+		// Model and generation options
+		new Setting(contentEl).setName("Model and options").setHeading();
+		contentEl.createEl("p", {
+			text: "Optionally pin a model and generation options for this prompt. Leave a field empty to use the default.",
+			cls: "setting-item-description"
+		});
+
+		this.renderModelSetting(contentEl);
+
+		new Setting(contentEl)
+			.setName("Include images")
+			.setDesc("Send the images embedded in the text, e.g. whiteboard photos or slides. The model has to support images, such as llava or gemma3.")
+			.addToggle(toggle => toggle
+				.setValue(this.prompt.includeImages || false)
+				.onChange(value => {
+					this.prompt.includeImages = value;
+				}));
+
+		const options = this.prompt.options as GenerationOptions;
+		this.addNumberOption(contentEl, "Temperature", "Higher values make the output more creative, e.g. 0.8", "temperature");
+		this.addNumberOption(contentEl, "Top P", "Nucleus sampling threshold, e.g. 0.9", "top_p");
+		this.addNumberOption(contentEl, "Seed", "A fixed seed makes the output reproducible", "seed");
+		this.addNumberOption(contentEl, "Context size (num_ctx)", "Size of the context window in tokens", "num_ctx");
+		this.addNumberOption(contentEl, "Max tokens (num_predict)", "Maximum number of tokens to generate", "num_predict");
+
+		new Setting(contentEl)
+			.setName("Stop sequences")
+			.setDesc("One sequence per line. Generation stops when any of them is produced.")
+			.addTextArea(text => text
+				.setValue((options.stop || []).join("\n"))
+				.onChange(value => {
+					const stop = value.split("\n").filter(line => line.length > 0);
+					options.stop = stop.length > 0 ? stop : undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName("Keep alive")
+			.setDesc("How long the model stays loaded after the request, e.g. 5m, 1h or 0")
+			.addText(text => text
+				.setValue(options.keep_alive || "")
+				.onChange(value => {
+					options.keep_alive = value.trim() || undefined;
+				}));
+
+		// Output placement
+		new Setting(contentEl).setName("Output").setHeading();
+
+		new Setting(contentEl)
+			.setName("Output mode")
+			.setDesc("Where the generated text is written. Modes other than replacing the note work on the selection if there is one.")
+			.addDropdown(dropdown => {
+				(Object.keys(OUTPUT_MODES) as OutputMode[]).forEach(mode => {
+					dropdown.addOption(mode, OUTPUT_MODES[mode]);
+				});
+				dropdown.setValue(this.prompt.outputMode || 'replace-note')
+					.onChange(value => {
+						this.prompt.outputMode = value as OutputMode;
+						headingSetting.settingEl.toggle(value === 'append-under-heading');
+					});
+			});
+
+		const headingSetting = new Setting(contentEl)
+			.setName("Heading")
+			.setDesc("The output is appended to the end of the section under this heading. The heading is created if the note does not have it.")
+			.addText(text => text
+				.setPlaceholder("AI Notes")
+				.setValue(this.prompt.outputHeading || "")
+				.onChange(value => {
+					this.prompt.outputHeading = value.trim() || undefined;
+				}));
+		headingSetting.settingEl.toggle(this.prompt.outputMode === 'append-under-heading');
+
+		renderOutputFormatSettings(contentEl, this.prompt);
+
+		this.renderStructuredOutputSettings(contentEl);
+
+		// Related notes
+		new Setting(contentEl).setName("Related notes").setHeading();
+		contentEl.createEl("p", {
+			text: "Add the most relevant passages of other notes from the semantic index as context, e.g. past meeting notes. The output links the notes they came from.",
+			cls: "setting-item-description"
+		});
+
+		// Kept while no passages are set, so that the folder is not lost when the count is retyped
+		let folder = this.prompt.retrieval?.folder;
+		const folderSetting = new Setting(contentEl)
+			.setName("Folder")
+			.setDesc("Only use notes in this folder and its subfolders. Leave empty to search the whole vault.")
+			.addText(text => text
+				.setPlaceholder("Meetings")
+				.setValue(folder || "")
+				.onChange(value => {
+					folder = value.trim() || undefined;
+					if (this.prompt.retrieval) {
+						this.prompt.retrieval.folder = folder;
+					}
+				}));
+
+		new Setting(contentEl)
+			.setName("Passages")
+			.setDesc("How many passages to add. Leave empty to not add any.")
+			.addText(text => text
+				.setValue(this.prompt.retrieval ? String(this.prompt.retrieval.count) : "")
+				.onChange(value => {
+					const count = parseInt(value, 10);
+					if (!isNaN(count) && count > 0) {
+						this.prompt.retrieval = {count, folder};
+					} else {
+						delete this.prompt.retrieval;
+					}
+					folderSetting.settingEl.toggle(this.prompt.retrieval !== undefined);
+				}));
+		contentEl.appendChild(folderSetting.settingEl);
+		folderSetting.settingEl.toggle(this.prompt.retrieval !== undefined);
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({cls: "prompt-edit-buttons"});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Save")
+			.setCta()
+			.onClick(() => {
+				if (!this.prompt.name.trim()) {
+					new Notice("Prompt name cannot be empty");
+					return;
+				}
+
+				if (!this.prompt.body.trim()) {
+					new Notice("Prompt body cannot be empty");
+					return;
+				}
+
+				const unknownVariables = findUnknownTemplateVariables(this.prompt.body + (this.prompt.systemPrompt || ""));
+				if (unknownVariables.length > 0) {
+					new Notice(`Unknown template variables: ${unknownVariables.map(name => `{{${name}}}`).join(", ")}`);
+					return;
+				}
+
+				const outputFormatError = checkOutputFormat(this.prompt);
+				if (outputFormatError) {
+					new Notice(outputFormatError);
+					return;
+				}
+
+				const schema = this.prompt.structuredOutput?.schema;
+				if (schema && schema.trim()) {
+					try {
+						JSON.parse(schema);
+					} catch (error) {
+						new Notice(`The JSON schema is not valid JSON: ${(error as Error).message}`);
+						return;
+					}
+				}
+
+				// systemPrompt is optional, so no validation needed
+
+				// Drop empty model and output settings so the defaults apply
+				if (!this.prompt.model) {
+					delete this.prompt.model;
+				}
+				if (!this.prompt.outputMode || this.prompt.outputMode === 'replace-note') {
+					delete this.prompt.outputMode;
+				}
+				if (!this.prompt.outputHeading) {
+					delete this.prompt.outputHeading;
+				}
+				if (!this.prompt.favorite) {
+					delete this.prompt.favorite;
+				}
+				if (!this.prompt.includeImages) {
+					delete this.prompt.includeImages;
+				}
+				if (this.prompt.retrieval && !this.prompt.retrieval.folder) {
+					delete this.prompt.retrieval.folder;
+				}
+				const options = this.prompt.options as GenerationOptions;
+				(Object.keys(options) as (keyof GenerationOptions)[]).forEach(key => {
+					if (options[key] === undefined) {
+						delete options[key];
+					}
+				});
+				if (Object.keys(options).length === 0) {
+					delete this.prompt.options;
+				}
+
+				this.onSave(this.prompt);
+				this.close();
+			});
+
+		// We're already using a CSS class for the button container (prompt-edit-buttons)
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+
+	private renderStructuredOutputSettings(container: HTMLElement): void {
+		new Setting(container).setName("Structured output").setHeading();
+		container.createEl("p", {
+			text: "Ask the model for JSON matching a schema instead of free text. The response is validated, retried if invalid, and rendered into tasks, frontmatter properties or a table.",
+			cls: "setting-item-description"
+		});
+
+		const detailsEl = createDiv();
+
+		new Setting(container)
+			.setName("Renderer")
+			.setDesc("How the JSON response is written to the note")
+			.addDropdown(dropdown => {
+				dropdown.addOption("", "None (free text)");
+				(Object.keys(STRUCTURED_RENDERERS) as StructuredRenderer[]).forEach(renderer => {
+					dropdown.addOption(renderer, STRUCTURED_RENDERERS[renderer]);
+				});
+				dropdown.setValue(this.prompt.structuredOutput?.renderer || "")
+					.onChange(value => {
+						if (value) {
+							this.prompt.structuredOutput = {...this.prompt.structuredOutput, renderer: value as StructuredRenderer};
+						} else {
+							delete this.prompt.structuredOutput;
+						}
+						this.renderStructuredOutputDetails(detailsEl);
+					});
+			});
+
+		container.appendChild(detailsEl);
+		this.renderStructuredOutputDetails(detailsEl);
+	}
+
+	private renderStructuredOutputDetails(container: HTMLElement): void {
+		container.empty();
+		const structured = this.prompt.structuredOutput;
+		if (!structured) {
+			return;
+		}
+
+		new Setting(container)
+			.setName("JSON schema")
+			.setDesc("Sent to the model as the response format. Leave empty to use the default schema of the renderer, shown as placeholder.")
+			.addTextArea(text => text
+				.setPlaceholder(JSON.stringify(DEFAULT_STRUCTURED_SCHEMAS[structured.renderer], null, 2))
+				.setValue(structured.schema || "")
+				.onChange(value => {
+					structured.schema = value.trim() ? value : undefined;
+				}));
+
+		new Setting(container)
+			.setName("Retries")
+			.setDesc("How often to ask again when the response is not valid JSON or does not match the schema")
+			.addText(text => text
+				.setPlaceholder("2")
+				.setValue(structured.maxRetries !== undefined ? String(structured.maxRetries) : "")
+				.onChange(value => {
+					const retries = parseInt(value, 10);
+					structured.maxRetries = !isNaN(retries) && retries >= 0 ? retries : undefined;
+				}));
+	}
+
+	private renderModelSetting(container: HTMLElement): void {
+		const modelSetting = new Setting(container)
+			.setName("Model")
+			.setDesc(`Model used for this prompt. Defaults to ${this.plugin.settings.defaultModel}.`);
+
+		const addTextInput = () => {
+			modelSetting.addText(text => text
+				.setPlaceholder(this.plugin.settings.defaultModel)
+				.setValue(this.prompt.model || "")
+				.onChange(value => {
+					this.prompt.model = value.trim() || undefined;
+				}));
+		};
+
+		this.plugin.llmService.getModels()
+			.then(models => {
+				if (models.length === 0) {
+					addTextInput();
+					return;
+				}
+				modelSetting.addDropdown(dropdown => {
+					dropdown.addOption("", "Default model");
+					models.forEach(model => dropdown.addOption(model, model));
+					// Keep a pinned model selectable even if it is not installed
+					if (this.prompt.model && !models.includes(this.prompt.model)) {
+						dropdown.addOption(this.prompt.model, this.prompt.model);
+					}
+					dropdown.setValue(this.prompt.model || "")
+						.onChange(value => {
+							this.prompt.model = value || undefined;
+						});
+				});
+			})
+			.catch(() => addTextInput());
+	}
+
+	private addNumberOption(container: HTMLElement, name: string, desc: string, key: 'temperature' | 'top_p' | 'seed' | 'num_ctx' | 'num_predict'): void {
+		const options = this.prompt.options as GenerationOptions;
+		new Setting(container)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setValue(options[key] !== undefined ? String(options[key]) : "")
+				.onChange(value => {
+					const parsed = parseFloat(value);
+					options[key] = value.trim() && !isNaN(parsed) ? parsed : undefined;
+				}));
+	}
+}
+
+class PipelineEditModal extends Modal {
+	plugin: OllamaTranscriptProcessor;
+	pipeline: Pipeline;
+	onSave: (pipeline: Pipeline) => void;
+	stepsContainer: HTMLElement;
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor, pipeline: Pipeline, onSave: (pipeline: Pipeline) => void) {
+		super(app);
+		this.plugin = plugin;
+		// Clone to avoid modifying the original
+		this.pipeline = {...pipeline, steps: pipeline.steps.map(step => ({...step}))};
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Edit pipeline").setHeading();
+
+		new Setting(contentEl)
+			.setName("Name")
+			.setDesc("A short, descriptive name for this pipeline")
+			.addText(text => text
+				.setValue(this.pipeline.name)
+				.onChange(value => {
+					this.pipeline.name = value;
+				}));
+
+		new Setting(contentEl).setName("Steps").setHeading();
+		contentEl.createEl("p", {
+			text: "Prompts run in this order. Each step processes either the original text or the output of the previous step. The output of the last step is always kept.",
+			cls: "setting-item-description"
+		});
+
+		this.stepsContainer = contentEl.createDiv({cls: "pipeline-steps"});
+		this.renderSteps();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText("Add step")
+				.onClick(() => {
+					const firstPrompt = this.plugin.getPrompts()[0];
+					if (!firstPrompt) {
+						new Notice("Create a prompt first");
+						return;
+					}
+					this.pipeline.steps.push({
+						promptId: firstPrompt.id,
+						input: this.pipeline.steps.length > 0 ? 'previous' : 'original',
+						keepOutput: false
+					});
+					this.renderSteps();
+				}));
+
+		// Output placement
+		new Setting(contentEl).setName("Output").setHeading();
+
+		new Setting(contentEl)
+			.setName("Output mode")
+			.setDesc("Where the kept outputs are written")
+			.addDropdown(dropdown => {
+				(Object.keys(OUTPUT_MODES) as OutputMode[]).forEach(mode => {
+					dropdown.addOption(mode, OUTPUT_MODES[mode]);
+				});
+				dropdown.setValue(this.pipeline.outputMode || 'replace-note')
+					.onChange(value => {
+						this.pipeline.outputMode = value as OutputMode;
+						headingSetting.settingEl.toggle(value === 'append-under-heading');
+					});
+			});
+
+		const headingSetting = new Setting(contentEl)
+			.setName("Heading")
+			.setDesc("The output is appended to the end of the section under this heading")
+			.addText(text => text
+				.setPlaceholder("AI Notes")
+				.setValue(this.pipeline.outputHeading || "")
+				.onChange(value => {
+					this.pipeline.outputHeading = value.trim() || undefined;
+				}));
+		headingSetting.settingEl.toggle(this.pipeline.outputMode === 'append-under-heading');
+
+		renderOutputFormatSettings(contentEl, this.pipeline);
+
+		// Buttons
+		const buttonContainer = contentEl.createDiv({cls: "prompt-edit-buttons"});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Save")
+			.setCta()
+			.onClick(() => {
+				if (!this.pipeline.name.trim()) {
+					new Notice("Pipeline name cannot be empty");
+					return;
+				}
+
+				if (this.pipeline.steps.length === 0) {
+					new Notice("A pipeline needs at least one step");
+					return;
+				}
+
+				const outputFormatError = checkOutputFormat(this.pipeline);
+				if (outputFormatError) {
+					new Notice(outputFormatError);
+					return;
+				}
+
+				if (!this.pipeline.outputMode || this.pipeline.outputMode === 'replace-note') {
+					delete this.pipeline.outputMode;
+				}
+				if (!this.pipeline.outputHeading) {
+					delete this.pipeline.outputHeading;
+				}
+
+				this.onSave(this.pipeline);
+				this.close();
+			});
+	}
+
+	private renderSteps(): void {
+		this.stepsContainer.empty();
+
+		if (this.pipeline.steps.length === 0) {
+			this.stepsContainer.createEl("p", {text: 'No steps yet. Click "Add step" to add one.'});
+			return;
+		}
+
+		this.pipeline.steps.forEach((step, index) => {
+			const setting = new Setting(this.stepsContainer)
+				.setName(`Step ${index + 1}`)
+				.addDropdown(dropdown => {
+					this.plugin.getPrompts().forEach(prompt => {
+						dropdown.addOption(prompt.id, prompt.name);
+					});
+					if (!this.plugin.getPrompts().some(prompt => prompt.id === step.promptId)) {
+						dropdown.addOption(step.promptId, "(deleted prompt)");
+					}
+					dropdown.setValue(step.promptId)
+						.onChange(value => {
+							step.promptId = value;
+						});
+				});
+
+			// The first step has no previous output to work on
+			if (index > 0) {
+				setting.addDropdown(dropdown => dropdown
+					.addOption('previous', "Previous output")
+					.addOption('original', "Original text")
+					.setValue(step.input)
+					.onChange(value => {
+						step.input = value as PipelineStep['input'];
+					}));
+			}
+
+			if (index < this.pipeline.steps.length - 1) {
+				setting.addToggle(toggle => toggle
+					.setTooltip("Keep this step's output as its own section")
+					.setValue(step.keepOutput)
+					.onChange(value => {
+						step.keepOutput = value;
+					}));
+			}
+
+			setting
+				.addExtraButton(button => button
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(() => this.moveStep(index, index - 1)))
+				.addExtraButton(button => button
+					.setIcon("arrow-down")
+					.setTooltip("Move down")
+					.setDisabled(index === this.pipeline.steps.length - 1)
+					.onClick(() => this.moveStep(index, index + 1)))
+				.addExtraButton(button => button
+					.setIcon("trash")
+					.setTooltip("Remove step")
+					.onClick(() => {
+						this.pipeline.steps.splice(index, 1);
+						this.renderSteps();
+					}));
+		});
+	}
+
+	private moveStep(from: number, to: number): void {
+		if (to < 0 || to >= this.pipeline.steps.length) {
+			return;
+		}
+		const [step] = this.pipeline.steps.splice(from, 1);
+		this.pipeline.steps.splice(to, 0, step);
+		// The first step always works on the original text
+		this.pipeline.steps[0].input = 'original';
+		this.renderSteps();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
 
-		if (!noteText.trim()) {
-			new Notice('The note is empty');
+const CHAT_VIEW_TYPE = 'ollama-chat-view';
+
+// Side panel for asking follow-up questions about a note
+class ChatView extends ItemView {
+	plugin: OllamaTranscriptProcessor;
+	private messages: ChatMessage[] = [];
+	private sourceFile: TFile | null = null;
+	private model: string;
+	private abortController: AbortController | null = null;
+	private sourceEl: HTMLElement;
+	private messagesEl: HTMLElement;
+	private inputEl: HTMLTextAreaElement;
+	private sendButton: ButtonComponent;
+
+	constructor(leaf: WorkspaceLeaf, plugin: OllamaTranscriptProcessor) {
+		super(leaf);
+		this.plugin = plugin;
+		this.model = plugin.settings.defaultModel;
+	}
+
+	getViewType(): string {
+		return CHAT_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Ollama chat";
+	}
+
+	getIcon(): string {
+		return "message-square";
+	}
+
+	async onOpen(): Promise<void> {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass("ollama-chat-view");
+
+		const header = contentEl.createDiv({cls: "ollama-chat-header"});
+		this.renderModelPicker(header);
+		new ButtonComponent(header)
+			.setIcon("plus")
+			.setTooltip("New chat about the current note")
+			.onClick(() => this.startNewChat());
+
+		this.sourceEl = contentEl.createDiv({cls: "ollama-chat-source"});
+		this.messagesEl = contentEl.createDiv({cls: "ollama-chat-messages"});
+
+		const inputContainer = contentEl.createDiv({cls: "ollama-chat-input"});
+		this.inputEl = inputContainer.createEl("textarea", {attr: {placeholder: "Ask about this note...", rows: "3"}});
+		this.inputEl.addEventListener("keydown", (evt) => {
+			// Enter sends, Shift+Enter adds a new line
+			if (evt.key === "Enter" && !evt.shiftKey) {
+				evt.preventDefault();
+				this.send();
+			}
+		});
+
+		this.sendButton = new ButtonComponent(inputContainer)
+			.setButtonText("Send")
+			.setCta()
+			.onClick(() => {
+				if (this.abortController) {
+					this.abortController.abort();
+				} else {
+					this.send();
+				}
+			});
+
+		// Follow the active note until the conversation starts
+		this.registerEvent(this.app.workspace.on("file-open", (file) => {
+			if (this.messages.length === 0 && file) {
+				this.setSourceFile(file);
+			}
+		}));
+
+		this.setSourceFile(this.app.workspace.getActiveFile());
+	}
+
+	async onClose(): Promise<void> {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+	}
+
+	private renderModelPicker(container: HTMLElement): void {
+		const dropdown = new DropdownComponent(container);
+		dropdown.addOption(this.model, this.model);
+		dropdown.setValue(this.model)
+			.onChange(value => {
+				this.model = value;
+			});
+
+		this.plugin.llmService.getModels()
+			.then(models => {
+				models.filter(model => model !== this.model).forEach(model => dropdown.addOption(model, model));
+			})
+			.catch(() => {
+				new Notice("Could not load the list of models");
+			});
+	}
+
+	private setSourceFile(file: TFile | null): void {
+		this.sourceFile = file;
+		this.sourceEl.setText(file ? `Chatting about: ${file.basename}` : "Open a note to chat about it");
+	}
+
+	private startNewChat(): void {
+		if (this.abortController) {
+			this.abortController.abort();
+			this.abortController = null;
+			this.sendButton.setButtonText("Send");
+		}
+		this.messages = [];
+		this.messagesEl.empty();
+		this.setSourceFile(this.app.workspace.getActiveFile());
+	}
+
+	// The note is read again for every question so that edits are taken into account
+	private async buildSystemMessage(file: TFile): Promise<ChatMessage> {
+		const noteText = await this.app.vault.cachedRead(file);
+		return {
+			role: 'system',
+			content: `You are a helpful assistant answering questions about the note "${file.basename}". Base your answers on the note and say so when the note does not contain the answer.
+
+====NOTE_BEGIN====
+${noteText}
+====NOTE_END====`
+		};
+	}
+
+	private async send(): Promise<void> {
+		const question = this.inputEl.value.trim();
+		if (!question || this.abortController) {
 			return;
 		}
 
-		// Save the last used prompt ID
-		this.settings.lastUsedPromptId = prompt.id;
-		await this.saveSettings();
+		const file = this.sourceFile;
+		if (!file) {
+			new Notice("Open a note to chat about it");
+			return;
+		}
 
-		// Show processing notification
-		const processingNotice = new Notice('Processing transcript with Ollama...', 0);
+		this.inputEl.value = "";
+		// A new chat replaces the conversation, so a reply that is cancelled by it must not touch the new one
+		const conversation = this.messages;
+		conversation.push({role: 'user', content: question});
+		this.createMessageEl('user').setText(question);
 
-		try {
-			// Prepare the prompt with the transcript
-			const fullPrompt = `${prompt.body}
-			\n
-			====TEXT_BEGIN====\n
-			${noteText}
-			====TEXT_END====
-			`;
+		const answerEl = this.createMessageEl('assistant');
+		const controller = new AbortController();
+		this.abortController = controller;
+		this.sendButton.setButtonText("Stop");
 
-			// Call Ollama API
-			const response = await this.ollamaService.generateText(
-				this.settings.defaultModel,
-				fullPrompt,
-				prompt.systemPrompt || ""  // Use the prompt's system instruction
+		let answer = "";
+		try {
+			const systemMessage = await this.buildSystemMessage(file);
+			// The conversation is kept as it is, only the model gets it with personal data redacted
+			const redactor = this.plugin.createRedactor();
+			const messages = [systemMessage, ...conversation];
+			let response = "";
+			await this.plugin.llmService.chatStream(
+				this.model,
+				redactor ? messages.map(message => ({...message, content: redactor.redact(message.content)})) : messages,
+				(token) => {
+					response += token;
+					answer = redactor ? redactor.restore(response) : response;
+					answerEl.setText(answer);
+					this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+				},
+				undefined,
+				controller.signal
 			);
+			conversation.push({role: 'assistant', content: answer});
+			await this.renderAnswer(answerEl, answer);
+		} catch (error) {
+			if (conversation !== this.messages) {
+				return;
+			}
+			if (isAbortError(error) && answer) {
+				// Keep the partial answer as part of the conversation
+				conversation.push({role: 'assistant', content: answer});
+				await this.renderAnswer(answerEl, answer);
+			} else {
+				// Drop the unanswered question so that the history stays consistent
+				conversation.pop();
+				answerEl.setText(isAbortError(error) ? "Cancelled" : `Error: ${(error as Error).message}`);
+				answerEl.parentElement?.addClass("is-error");
+			}
+		} finally {
+			if (this.abortController === controller) {
+				this.abortController = null;
+				this.sendButton.setButtonText("Send");
+			}
+		}
+	}
+
+	// Returns the element that holds the message text
+	private createMessageEl(role: 'user' | 'assistant'): HTMLElement {
+		const messageEl = this.messagesEl.createDiv({cls: `ollama-chat-message is-${role}`});
+		const contentEl = messageEl.createDiv({cls: "ollama-chat-message-content"});
+		this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+		return contentEl;
+	}
+
+	private async renderAnswer(contentEl: HTMLElement, answer: string): Promise<void> {
+		contentEl.empty();
+		await MarkdownRenderer.render(this.app, answer, contentEl, this.sourceFile ? this.sourceFile.path : "", this);
 
-			// Format the note with the AI response
-			const formattedNote = this.formatProcessedNote(noteText, response);
+		const actionsEl = contentEl.parentElement?.createDiv({cls: "ollama-chat-message-actions"});
+		if (!actionsEl) {
+			return;
+		}
+		new ExtraButtonComponent(actionsEl)
+			.setIcon("file-input")
+			.setTooltip("Insert into note")
+			.onClick(() => this.insertIntoNote(answer));
+		new ExtraButtonComponent(actionsEl)
+			.setIcon("copy")
+			.setTooltip("Copy")
+			.onClick(async () => {
+				await navigator.clipboard.writeText(answer);
+				new Notice("Answer copied");
+			});
+	}
 
-			// Update the note content
-			editor.setValue(formattedNote);
+	// Inserts at the cursor if the note is open, otherwise appends to the end of the note
+	private async insertIntoNote(text: string): Promise<void> {
+		const file = this.sourceFile;
+		if (!file) {
+			return;
+		}
 
-			// Set cursor position to the beginning of the AI Notes section
-			const aiNotesPosition = formattedNote.indexOf('## AI Notes') + 11;
-			editor.setCursor(editor.offsetToPos(aiNotesPosition));
+		const openView = this.app.workspace.getLeavesOfType("markdown")
+			.map(leaf => leaf.view)
+			.find(view => view instanceof MarkdownView && view.file === file) as MarkdownView | undefined;
 
-			// Close the processing notice
-			processingNotice.hide();
+		if (openView) {
+			openView.editor.replaceSelection(text);
+		} else {
+			await this.app.vault.process(file, (content) => `${content.trimEnd()}\n\n${text}\n`);
+		}
+		new Notice(`Answer inserted into ${file.basename}`);
+	}
+}
 
-			// Show success notice
-			new Notice('Transcript processed successfully');
+// Lets the user choose the models to compare a prompt with
+class ModelSelectionModal extends Modal {
+	plugin: OllamaTranscriptProcessor;
+	prompt: Prompt;
+	onSubmit: (models: string[]) => void;
+	private selected = new Set<string>();
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor, prompt: Prompt, onSubmit: (models: string[]) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.prompt = prompt;
+		this.onSubmit = onSubmit;
+		this.selected.add(prompt.model || plugin.settings.defaultModel);
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName(`Compare models: ${this.prompt.name}`).setHeading();
+		contentEl.createEl("p", {
+			text: "The prompt runs on the current note with each selected model, one after another.",
+			cls: "setting-item-description"
+		});
+
+		let models: string[];
+		try {
+			models = await this.plugin.llmService.getModels();
 		} catch (error) {
-			// Close the processing notice
-			processingNotice.hide();
+			contentEl.createEl("p", {text: "Could not load the list of models. Check the connection settings."});
+			return;
+		}
 
-			// Show error notice
-			new Notice(`Error processing transcript: ${(error as Error).message}`);
-			console.error('Error processing transcript:', error);
+		models.forEach(model => {
+			new Setting(contentEl)
+				.setName(model)
+				.addToggle(toggle => toggle
+					.setValue(this.selected.has(model))
+					.onChange(value => {
+						if (value) {
+							this.selected.add(model);
+						} else {
+							this.selected.delete(model);
+						}
+					}));
+		});
+
+		const buttonContainer = contentEl.createDiv({cls: "prompt-edit-buttons"});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Cancel")
+			.onClick(() => {
+				this.close();
+			});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Compare")
+			.setCta()
+			.onClick(() => {
+				// Keep the order of the list and ignore models that are not installed
+				const selectedModels = models.filter(model => this.selected.has(model));
+				if (selectedModels.length === 0) {
+					new Notice("Select at least one model");
+					return;
+				}
+				this.close();
+				this.onSubmit(selectedModels);
+			});
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+// Shows the outputs of the compared models next to each other
+class ModelComparisonModal extends Modal {
+	plugin: OllamaTranscriptProcessor;
+	prompt: Prompt;
+	results: ModelComparisonResult[];
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor, prompt: Prompt, results: ModelComparisonResult[]) {
+		super(app);
+		this.plugin = plugin;
+		this.prompt = prompt;
+		this.results = results;
+	}
+
+	onOpen() {
+		const {contentEl, modalEl} = this;
+		contentEl.empty();
+		modalEl.addClass("ollama-comparison-modal");
+
+		new Setting(contentEl).setName(`Model comparison: ${this.prompt.name}`).setHeading();
+
+		const columns = contentEl.createDiv({cls: "ollama-comparison-columns"});
+		for (const result of this.results) {
+			const column = columns.createDiv({cls: "ollama-comparison-column"});
+			column.createDiv({text: result.model, cls: "ollama-history-title"});
+
+			if (result.error !== undefined || result.text === undefined || !result.stats) {
+				column.createDiv({text: `Failed: ${result.error}`, cls: "mod-warning"});
+				continue;
+			}
+
+			column.createDiv({text: this.formatStats(result.stats), cls: "ollama-history-meta"});
+
+			const outputEl = column.createDiv({cls: "ollama-comparison-output"});
+			MarkdownRenderer.render(this.app, result.text, outputEl, this.app.workspace.getActiveFile()?.path || '', this.plugin);
+
+			const buttons = column.createDiv({cls: "ollama-history-buttons"});
+			const text = result.text;
+			new ButtonComponent(buttons)
+				.setButtonText("Insert")
+				.setCta()
+				.onClick(async () => {
+					this.close();
+					await this.plugin.insertOutput(this.prompt, text, result.model, result.startedAt);
+				});
+			new ButtonComponent(buttons)
+				.setButtonText("Use for prompt")
+				.setTooltip(`Set ${result.model} as the model of this prompt`)
+				.setDisabled(this.prompt.model === result.model)
+				.onClick(async () => {
+					this.prompt = {...this.prompt, model: result.model};
+					await this.plugin.savePrompt(this.prompt);
+					new Notice(`"${this.prompt.name}" now uses ${result.model}`);
+					this.onOpen();
+				});
 		}
 	}
 
-	formatProcessedNote(originalText: string, aiResponse: string): string {
-		// Format the original text as a collapsible block
-		const originalBlock = originalText.split('\n')
-			.map(line => `> ${line}`)
-			.join('\n');
+	private formatStats(stats: GenerationStats): string {
+		const parts = [`${(stats.totalTime / 1000).toFixed(1)} s`];
+		if (stats.responseTokens !== undefined) {
+			parts.push(`${stats.responseTokens} tokens`);
+			if (stats.generationTime) {
+				parts.push(`${(stats.responseTokens / (stats.generationTime / 1000)).toFixed(1)} tokens/s`);
+			}
+		}
+		if (stats.promptTokens !== undefined) {
+			parts.push(`${stats.promptTokens} prompt tokens`);
+		}
+		return parts.join(' · ');
+	}
 
-		// Combine into the final format
-		return `
-# AI Notes
-${aiResponse}
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
 
-# Original Transcript
-> [!details] ORIGINAL TRANSCRIPTION
-${originalBlock}
+const HISTORY_VIEW_TYPE = 'ollama-history-view';
 
-`;
+// Side panel listing the past runs on the active note
+class HistoryView extends ItemView {
+	plugin: OllamaTranscriptProcessor;
+	private removeHistoryListener: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: OllamaTranscriptProcessor) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return HISTORY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Run history";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.addClass("ollama-history-view");
+
+		this.registerEvent(this.app.workspace.on("file-open", () => this.render()));
+		this.removeHistoryListener = this.plugin.history.onChange(() => this.render());
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.removeHistoryListener?.();
+	}
+
+	private render(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			contentEl.createEl("p", {text: "Open a note to see the runs on it.", cls: "setting-item-description"});
+			return;
+		}
+
+		const entries = this.plugin.history.forNote(file.path);
+		new Setting(contentEl)
+			.setName(file.basename)
+			.setDesc(`${entries.length} run${entries.length === 1 ? "" : "s"}`)
+			.setHeading()
+			.addExtraButton(button => button
+				.setIcon("trash")
+				.setTooltip("Clear the history of this note")
+				.setDisabled(entries.length === 0)
+				.onClick(async () => {
+					if (confirm(`Are you sure you want to clear the run history of "${file.basename}"?`)) {
+						await this.plugin.history.clearNote(file.path);
+					}
+				}));
+
+		for (const entry of entries) {
+			const entryEl = contentEl.createDiv({cls: "ollama-history-entry"});
+			entryEl.createDiv({text: entry.promptName, cls: "ollama-history-title"});
+			entryEl.createDiv({
+				text: `${moment(entry.startedAt).format("YYYY-MM-DD HH:mm")} · ${entry.model} · ${Math.round((entry.finishedAt - entry.startedAt) / 1000)} s · version ${entry.promptVersion}`,
+				cls: "ollama-history-meta"
+			});
+			if (entry.options && Object.keys(entry.options).length > 0) {
+				entryEl.createDiv({text: JSON.stringify(entry.options), cls: "ollama-history-meta"});
+			}
+
+			const outputEl = entryEl.createEl("details");
+			outputEl.createEl("summary", {text: "Output"});
+			outputEl.createEl("pre", {text: entry.output, cls: "request-preview-text"});
+
+			const buttons = entryEl.createDiv({cls: "ollama-history-buttons"});
+			new ButtonComponent(buttons)
+				.setButtonText("Diff")
+				.setTooltip("Compare the note after this run with the current note")
+				.onClick(async () => {
+					const currentText = await this.app.vault.read(file);
+					new DiffModal(this.app, `After "${entry.promptName}" → current note`, entry.noteAfter, currentText).open();
+				});
+			new ButtonComponent(buttons)
+				.setButtonText("Restore")
+				.setTooltip("Restore the note as it was after this run")
+				.onClick(() => this.restore(file, entry.noteAfter, `the version after "${entry.promptName}"`));
+			new ButtonComponent(buttons)
+				.setButtonText("Restore input")
+				.setTooltip("Restore the note as it was before this run")
+				.onClick(() => this.restore(file, entry.noteBefore, `the version before "${entry.promptName}"`));
+		}
+	}
+
+	private async restore(file: TFile, text: string, description: string): Promise<void> {
+		if (!confirm(`Replace the content of "${file.basename}" with ${description}?`)) {
+			return;
+		}
+		await this.app.vault.process(file, () => text);
+		new Notice(`Restored ${description}`);
+	}
+}
+
+// Shows the changed lines between two texts with a few unchanged lines around each change
+class DiffModal extends Modal {
+	title: string;
+	before: string;
+	after: string;
+
+	constructor(app: App, title: string, before: string, after: string) {
+		super(app);
+		this.title = title;
+		this.before = before;
+		this.after = after;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass("ollama-diff-modal");
+
+		new Setting(contentEl).setName(this.title).setHeading();
+
+		const lines = diffLines(this.before, this.after);
+		if (lines.every(line => line.type === 'same')) {
+			contentEl.createEl("p", {text: "No differences."});
+			return;
+		}
+
+		const contextLines = 3;
+		const isNearChange = (index: number) => lines
+			.slice(Math.max(0, index - contextLines), index + contextLines + 1)
+			.some(line => line.type !== 'same');
+
+		const diffEl = contentEl.createDiv({cls: "ollama-diff"});
+		let skipped = 0;
+		lines.forEach((line, index) => {
+			if (line.type === 'same' && !isNearChange(index)) {
+				skipped++;
+				return;
+			}
+			if (skipped > 0) {
+				diffEl.createDiv({text: `… ${skipped} unchanged line${skipped === 1 ? "" : "s"}`, cls: "ollama-diff-skipped"});
+				skipped = 0;
+			}
+			const prefix = line.type === 'added' ? "+ " : line.type === 'removed' ? "- " : "  ";
+			diffEl.createDiv({text: prefix + line.text, cls: `ollama-diff-line ollama-diff-${line.type}`});
+		});
+		if (skipped > 0) {
+			diffEl.createDiv({text: `… ${skipped} unchanged line${skipped === 1 ? "" : "s"}`, cls: "ollama-diff-skipped"});
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
 	}
 }
 
-class PromptSelectionModal extends FuzzySuggestModal<Prompt> {
+class RequestPreviewModal extends Modal {
 	plugin: OllamaTranscriptProcessor;
-	prompts: Prompt[];
-	onChoosePrompt: (prompt: Prompt) => void;
+	preview: RequestPreview;
 
-	constructor(app: App, plugin: OllamaTranscriptProcessor, onChoosePrompt: (prompt: Prompt) => void) {
+	constructor(app: App, plugin: OllamaTranscriptProcessor, preview: RequestPreview) {
 		super(app);
 		this.plugin = plugin;
-		this.prompts = plugin.settings.prompts;
-		this.onChoosePrompt = onChoosePrompt;
-		this.setPlaceholder("Select a prompt or create a new one");
+		this.preview = preview;
 	}
 
-	getItems(): Prompt[] {
-		return this.prompts;
-	}
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass("request-preview-modal");
 
-	getItemText(prompt: Prompt): string {
-		return prompt.name;
-	}
+		const {item, prompt, request, options, tokens, contextLength, inputReport, redactions, images, imageSupport} = this.preview;
 
-	onChooseItem(prompt: Prompt, evt: MouseEvent | KeyboardEvent): void {
-		this.onChoosePrompt(prompt);
-	}
+		new Setting(contentEl).setName(`Request preview: ${item.name}`).setHeading();
+		if (isPipeline(item)) {
+			contentEl.createEl("p", {
+				text: `This is the request of the first step, "${prompt.name}". Later steps process the output of the steps before them.`,
+				cls: "setting-item-description"
+			});
+		}
 
-	renderSuggestion(item: FuzzyMatch<Prompt>, el: HTMLElement): void {
-		super.renderSuggestion(item, el);
+		new Setting(contentEl)
+			.setName("Model")
+			.setDesc(request.model);
 
-		// Add buttons for edit and delete
-		const buttonsContainer = el.createDiv({cls: "prompt-buttons"});
+		const tokenSetting = new Setting(contentEl)
+			.setName("Tokens")
+			.setDesc(contextLength !== null
+				? `About ${tokens} of ${contextLength} tokens in the context window (${Math.round(tokens / contextLength * 100)}%)`
+				: `About ${tokens} tokens. The context window is unknown because the server could not be reached.`);
+		if (contextLength !== null && tokens >= contextLength) {
+			tokenSetting.descEl.createDiv({
+				text: this.plugin.settings.chunkingEnabled
+					? "The text does not fit into the context window and will be processed in parts."
+					: "The text does not fit into the context window. Turn on splitting long texts in the settings or shorten the text.",
+				cls: "mod-warning"
+			});
+		}
+		if (inputReport) {
+			tokenSetting.descEl.createDiv({text: inputReport});
+		}
 
-		const editButton = new ExtraButtonComponent(buttonsContainer)
-			.setIcon("pencil")
-			.setTooltip("Edit prompt")
+		new Setting(contentEl).setName("Options").setHeading();
+		if (Object.keys(options).length > 0) {
+			contentEl.createEl("pre", {text: JSON.stringify(options, null, 2), cls: "request-preview-text"});
+		} else {
+			contentEl.createEl("p", {text: "The model's default options are used.", cls: "setting-item-description"});
+		}
+		if (this.plugin.settings.provider === 'ollama' && this.plugin.settings.autoContextSize && !options.num_ctx) {
+			contentEl.createEl("p", {text: "num_ctx is set to fit the input when the request is sent.", cls: "setting-item-description"});
+		}
+
+		if (images) {
+			new Setting(contentEl).setName("Images").setHeading();
+			if (images.length === 0) {
+				contentEl.createEl("p", {text: "The text does not embed any images.", cls: "setting-item-description"});
+			} else {
+				if (imageSupport === false) {
+					contentEl.createEl("p", {text: `${request.model} cannot take images, so they are not sent.`, cls: "mod-warning"});
+				}
+				const list = contentEl.createEl("ul");
+				images.forEach(path => list.createEl("li", {text: path}));
+			}
+		}
+
+		if (redactions) {
+			new Setting(contentEl).setName("Redacted").setHeading();
+			renderRedactions(contentEl, redactions);
+		}
+
+		new Setting(contentEl).setName("System prompt").setHeading();
+		if (request.systemPrompt) {
+			contentEl.createEl("pre", {text: request.systemPrompt, cls: "request-preview-text"});
+		} else {
+			contentEl.createEl("p", {text: "No system prompt.", cls: "setting-item-description"});
+		}
+
+		new Setting(contentEl).setName("Prompt").setHeading();
+		contentEl.createEl("pre", {text: request.prompt, cls: "request-preview-text"});
+
+		const buttonContainer = contentEl.createDiv({cls: "prompt-edit-buttons"});
+
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Edit prompt")
 			.onClick(() => {
 				this.close();
-				new PromptEditModal(this.app, this.plugin, item.item, (updatedPrompt) => {
-					// Update the prompt in settings
-					const index = this.plugin.settings.prompts.findIndex(p => p.id === updatedPrompt.id);
-					if (index !== -1) {
-						this.plugin.settings.prompts[index] = updatedPrompt;
-						this.plugin.saveSettings();
-					}
-					// Reopen the selection modal
-					new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
+				new PromptEditModal(this.app, this.plugin, prompt, async (updatedPrompt) => {
+					await this.plugin.savePrompt(updatedPrompt);
+					// Preview the request again with the changes
+					this.plugin.previewRequest(isPipeline(item) ? item : updatedPrompt);
 				}).open();
 			});
 
-		const deleteButton = new ExtraButtonComponent(buttonsContainer)
-			.setIcon("trash")
-			.setTooltip("Delete prompt")
-			.onClick(() => {
-				// Confirm deletion
-				if (confirm(`Are you sure you want to delete the prompt "${item.item.name}"?`)) {
-					// Remove the prompt from settings
-					this.plugin.settings.prompts = this.plugin.settings.prompts.filter(p => p.id !== item.item.id);
-					this.plugin.saveSettings();
-					// Refresh the modal
-					this.prompts = this.plugin.settings.prompts;
-					this.close();
-					new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
-				}
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Copy")
+			.onClick(async () => {
+				const text = request.systemPrompt
+					? `System prompt:\n${request.systemPrompt}\n\nPrompt:\n${request.prompt}`
+					: request.prompt;
+				await navigator.clipboard.writeText(text);
+				new Notice("Request copied to clipboard");
 			});
-	}
-
-	onOpen(): void {
-		super.onOpen();
 
-		// Add a button to create a new prompt
-		const {contentEl} = this;
-		const newPromptButton = new ButtonComponent(contentEl)
-   .setButtonText("New prompt")
+		new ButtonComponent(buttonContainer)
+			.setButtonText("Send")
+			.setCta()
 			.onClick(() => {
 				this.close();
-				const newPrompt: Prompt = {
-					id: Date.now().toString(),
-					name: "New prompt",
-					body: ""
-				};
-				new PromptEditModal(this.app, this.plugin, newPrompt, (createdPrompt) => {
-					// Add the new prompt to settings
-					this.plugin.settings.prompts.push(createdPrompt);
-					this.plugin.saveSettings();
-					// Reopen the selection modal
-					new PromptSelectionModal(this.app, this.plugin, this.onChoosePrompt).open();
-				}).open();
+				this.plugin.processTranscriptWithPrompt(item);
 			});
+	}
 
-		// Add CSS class to the button
-		newPromptButton.buttonEl.addClass("new-prompt-button");
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
 	}
 }
 
-class PromptEditModal extends Modal {
+class BatchFilterModal extends Modal {
 	plugin: OllamaTranscriptProcessor;
-	prompt: Prompt;
-	onSave: (prompt: Prompt) => void;
-	nameInput: TextComponent;
-	bodyInput: TextAreaComponent;
-	systemPromptInput: TextAreaComponent;
+	filter: BatchFilter = {folder: '', tag: '', query: ''};
+	onSubmit: (files: TFile[]) => void;
 
-	constructor(app: App, plugin: OllamaTranscriptProcessor, prompt: Prompt, onSave: (prompt: Prompt) => void) {
+	constructor(app: App, plugin: OllamaTranscriptProcessor, onSubmit: (files: TFile[]) => void) {
 		super(app);
 		this.plugin = plugin;
-		this.prompt = {...prompt}; // Clone to avoid modifying the original
-		if (!this.prompt.systemPrompt) {
-			this.prompt.systemPrompt = ""; // Initialize if not present
-		}
-		this.onSave = onSave;
+		this.onSubmit = onSubmit;
 	}
 
 	onOpen() {
 		const {contentEl} = this;
 		contentEl.empty();
 
-		new Setting(contentEl).setName(this.prompt.id ? "Edit prompt" : "Create prompt").setHeading();
+		new Setting(contentEl).setName("Batch process notes").setHeading();
 
-		// Name input
 		new Setting(contentEl)
-			.setName("Name")
-			.setDesc("A short, descriptive name for this prompt")
-			.addText(text => {
-				this.nameInput = text;
-				text.setValue(this.prompt.name)
-					.onChange(value => {
-						this.prompt.name = value;
-					});
-			});
-
-		// System Prompt input
-		new Setting(contentEl).setName("System instruction").setHeading();
-		contentEl.createEl("p", {
-			text: "Define the AI's role and general behavior. This is sent as the system instruction to the model.",
-			cls: "setting-item-description"
-		});
-
-		const systemPromptContainer = contentEl.createDiv();
-		this.systemPromptInput = new TextAreaComponent(systemPromptContainer)
-			.setValue(this.prompt.systemPrompt || "")
-			.onChange(value => {
-				this.prompt.systemPrompt = value;
-			});
-
-		// Add CSS class to the system prompt textarea
-		this.systemPromptInput.inputEl.addClass("system-prompt-input");
-
-		// Body input
-		new Setting(contentEl).setName("Prompt body").setHeading();
-		contentEl.createEl("p", {
-			text: "Write your specific instructions for the AI model. The transcript will be appended after this prompt. Text will be placed automatically between `====TEXT_BEGIN====` and `====TEXT_END====`. You may reference them in your prompt.",
-			cls: "setting-item-description"
-		});
+			.setName("Folder")
+			.setDesc("Only process notes in this folder and its subfolders. Leave empty for the whole vault.")
+			.addText(text => text
+				.setPlaceholder("Inbox/Transcripts")
+				.onChange(value => {
+					this.filter.folder = value;
+				}));
 
-		const textAreaContainer = contentEl.createDiv();
-		this.bodyInput = new TextAreaComponent(textAreaContainer)
-			.setValue(this.prompt.body)
-			.onChange(value => {
-				this.prompt.body = value;
-			});
+		new Setting(contentEl)
+			.setName("Tag")
+			.setDesc("Only process notes with this tag, including nested tags")
+			.addText(text => text
+				.setPlaceholder("#meeting")
+				.onChange(value => {
+					this.filter.tag = value;
+				}));
 
-		// Add CSS class to the textarea
-		this.bodyInput.inputEl.addClass("prompt-body-input");
+		new Setting(contentEl)
+			.setName("Path contains")
+			.setDesc("Only process notes whose path contains this text")
+			.addText(text => text
+				.onChange(value => {
+					this.filter.query = value;
+				}));
 
-		// Buttons
 		const buttonContainer = contentEl.createDiv({cls: "prompt-edit-buttons"});
 
 		new ButtonComponent(buttonContainer)
@@ -488,26 +6436,164 @@ class PromptEditModal extends Modal {
 			});
 
 		new ButtonComponent(buttonContainer)
-			.setButtonText("Save")
+			.setButtonText("Choose prompt")
 			.setCta()
 			.onClick(() => {
-				if (!this.prompt.name.trim()) {
-					new Notice("Prompt name cannot be empty");
+				const files = this.plugin.findMarkdownFiles(this.filter);
+				if (files.length === 0) {
+					new Notice("No notes match the filter");
 					return;
 				}
+				this.close();
+				this.onSubmit(files);
+			});
+	}
 
-				if (!this.prompt.body.trim()) {
-					new Notice("Prompt body cannot be empty");
-					return;
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class BatchReportModal extends Modal {
+	results: BatchResult[];
+
+	constructor(app: App, results: BatchResult[]) {
+		super(app);
+		this.results = results;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Batch processing report").setHeading();
+
+		const sections: [BatchItemStatus, string][] = [
+			['failed', 'Failed'],
+			['skipped', 'Skipped'],
+			['processed', 'Processed']
+		];
+
+		for (const [status, title] of sections) {
+			const results = this.results.filter(result => result.status === status);
+			if (results.length === 0) {
+				continue;
+			}
+
+			contentEl.createEl("h4", {text: `${title} (${results.length})`});
+			const list = contentEl.createEl("ul", {cls: "batch-report-list"});
+			for (const result of results) {
+				const item = list.createEl("li");
+				const link = item.createEl("a", {text: result.file.path});
+				link.addEventListener("click", () => {
+					this.app.workspace.getLeaf('tab').openFile(result.file);
+					this.close();
+				});
+				if (result.message) {
+					item.createSpan({text: `: ${result.message}`, cls: "batch-report-message"});
 				}
+			}
+		}
+	}
 
-				// systemPrompt is optional, so no validation needed
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
 
-				this.onSave(this.prompt);
+// Lists the placeholders and the values they stand for
+function renderRedactions(container: HTMLElement, redactions: Redaction[]): void {
+	if (redactions.length === 0) {
+		container.createEl("p", {text: "Nothing was redacted.", cls: "setting-item-description"});
+		return;
+	}
+	const table = container.createEl("table", {cls: "prompts-table"});
+	const header = table.createEl("tr");
+	header.createEl("th", {text: "Placeholder"});
+	header.createEl("th", {text: "Value"});
+	header.createEl("th", {text: "Type"});
+	for (const redaction of redactions) {
+		const row = table.createEl("tr");
+		row.createEl("td", {text: redaction.placeholder});
+		row.createEl("td", {text: redaction.value});
+		row.createEl("td", {text: REDACTION_CATEGORIES[redaction.category]});
+	}
+}
+
+// Shows the note as the model would get it, with personal data replaced by placeholders
+class RedactionPreviewModal extends Modal {
+	redactedText: string;
+	redactions: Redaction[];
+
+	constructor(app: App, redactedText: string, redactions: Redaction[]) {
+		super(app);
+		this.redactedText = redactedText;
+		this.redactions = redactions;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass("request-preview-modal");
+
+		new Setting(contentEl).setName("Redaction preview").setHeading();
+		renderRedactions(contentEl, this.redactions);
+
+		new Setting(contentEl).setName("Redacted text").setHeading();
+		contentEl.createEl("pre", {text: this.redactedText, cls: "request-preview-text"});
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class WatchLogModal extends Modal {
+	plugin: OllamaTranscriptProcessor;
+
+	constructor(app: App, plugin: OllamaTranscriptProcessor) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName("Automatic processing log").setHeading();
+
+		const entries = this.plugin.settings.watchLog;
+		if (entries.length === 0) {
+			contentEl.createEl("p", {text: "No notes have been processed automatically yet."});
+			return;
+		}
+
+		const list = contentEl.createEl("ul", {cls: "batch-report-list"});
+		for (const entry of entries) {
+			const item = list.createEl("li");
+			item.createSpan({text: `${moment(entry.time).format('YYYY-MM-DD HH:mm')} · ${entry.status} · `});
+			const link = item.createEl("a", {text: entry.path});
+			link.addEventListener("click", () => {
+				this.app.workspace.openLinkText(entry.path, '', 'tab');
 				this.close();
 			});
+			item.createSpan({text: ` with "${entry.promptName}"`});
+			if (entry.message) {
+				item.createSpan({text: `: ${entry.message}`, cls: "batch-report-message"});
+			}
+		}
 
-		// We're already using a CSS class for the button container (prompt-edit-buttons)
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText("Clear log")
+				.onClick(async () => {
+					this.plugin.settings.watchLog = [];
+					await this.plugin.saveSettings();
+					this.onOpen();
+				}));
 	}
 
 	onClose() {
@@ -519,6 +6605,8 @@ class PromptEditModal extends Modal {
 class OllamaSettingTab extends PluginSettingTab {
 	plugin: OllamaTranscriptProcessor;
 	private availableModels: string[] = [];
+	// Counts model list requests, so that only the answer to the latest one is used
+	private modelRequests = 0;
 
 	constructor(app: App, plugin: OllamaTranscriptProcessor) {
 		super(app, plugin);
@@ -529,24 +6617,184 @@ class OllamaSettingTab extends PluginSettingTab {
 		const {containerEl} = this;
 		containerEl.empty();
 
-		new Setting(containerEl).setName('Ollama Transcript Processor Settings').setHeading();
+		new Setting(containerEl).setName('Ollama Transcript Processor Settings').setHeading();
+
+		// Connection Settings
+		new Setting(containerEl).setName('Connection').setHeading();
+
+		new Setting(containerEl)
+			.setName('Provider')
+			.setDesc('The server that runs the models')
+			.addDropdown(dropdown => {
+				(Object.keys(LLM_PROVIDERS) as LLMProvider[]).forEach(provider => {
+					dropdown.addOption(provider, LLM_PROVIDERS[provider]);
+				});
+				dropdown.setValue(this.plugin.settings.provider)
+					.onChange(async (value) => {
+						this.plugin.settings.provider = value as LLMProvider;
+						await this.plugin.saveSettings();
+						this.plugin.updateLLMService();
+						this.plugin.refreshConnectionStatus();
+						this.display(); // Show the settings of the selected provider
+					});
+			});
+
+		// Update the service when connection settings change. The server is asked again once typing has stopped.
+		const refreshConnection = debounce(async () => {
+			this.plugin.refreshConnectionStatus();
+			await this.loadAvailableModels();
+		}, 1000, true);
+		const updateConnection = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.updateLLMService();
+			refreshConnection();
+		};
+
+		if (this.plugin.settings.provider === 'openai') {
+			new Setting(containerEl)
+				.setName('Base URL')
+				.setDesc('The URL of the OpenAI-compatible API, including the /v1 path')
+				.addText(text => text
+					.setPlaceholder('http://localhost:1234/v1')
+					.setValue(this.plugin.settings.openaiBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiBaseUrl = value;
+						await updateConnection();
+					}));
+
+			new Setting(containerEl)
+				.setName('API key')
+				.setDesc('Optional. Sent as a Bearer token.')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.setValue(this.plugin.settings.openaiApiKey)
+						.onChange(async (value) => {
+							this.plugin.settings.openaiApiKey = value;
+							await updateConnection();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Context length')
+				.setDesc('Context window of the loaded model in tokens. The API does not report it, so it is used to decide when texts have to be split.')
+				.addText(text => text
+					.setPlaceholder(String(DEFAULT_SETTINGS.openaiContextLength))
+					.setValue(String(this.plugin.settings.openaiContextLength))
+					.onChange(async (value) => {
+						const contextLength = parseInt(value, 10);
+						if (!isNaN(contextLength) && contextLength > 0) {
+							this.plugin.settings.openaiContextLength = contextLength;
+							await updateConnection();
+						}
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName('Ollama Host')
+				.setDesc('The URL of your Ollama instance (including protocol and port)')
+				.addText(text => text
+					.setPlaceholder('http://localhost:11434')
+					.setValue(this.plugin.settings.ollamaHost)
+					.onChange(async (value) => {
+						this.plugin.settings.ollamaHost = value;
+						await updateConnection();
+					}));
+
+			new Setting(containerEl)
+				.setName('API key')
+				.setDesc('Optional. Only needed for Ollama hosts behind an authenticating proxy. Sent as a Bearer token.')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.setValue(this.plugin.settings.ollamaApiKey)
+						.onChange(async (value) => {
+							this.plugin.settings.ollamaApiKey = value;
+							await updateConnection();
+						});
+				});
+
+			new Setting(containerEl)
+				.setName('Automatic context size')
+				.setDesc('Set num_ctx to fit the input when a prompt does not set it. Without it, Ollama uses a small default window and silently cuts off longer texts, which are refused instead.')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.autoContextSize)
+					.onChange(async (value) => {
+						this.plugin.settings.autoContextSize = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateLLMService();
+					}));
+
+			new Setting(containerEl)
+				.setName('Maximum context size')
+				.setDesc('Largest num_ctx in tokens the automatic context size may choose. Larger windows need more memory; longer texts are split into chunks.')
+				.addText(text => text
+					.setPlaceholder(String(DEFAULT_SETTINGS.maxContextSize))
+					.setValue(String(this.plugin.settings.maxContextSize))
+					.onChange(async (value) => {
+						const maxContextSize = parseInt(value, 10);
+						if (!isNaN(maxContextSize) && maxContextSize > 0) {
+							this.plugin.settings.maxContextSize = maxContextSize;
+							await this.plugin.saveSettings();
+							this.plugin.updateLLMService();
+						}
+					}));
+		}
+
+		const testSetting = new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc('Check that the server is reachable')
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(async () => {
+					button.setDisabled(true);
+					testSetting.setDesc('Connecting...');
+					try {
+						const status = await this.plugin.checkConnection();
+						testSetting.setDesc(`Connected${status.version ? ` to version ${status.version}` : ''} in ${status.latency} ms`);
+					} catch (error) {
+						testSetting.setDesc(`Connection failed: ${(error as Error).message}`);
+					} finally {
+						button.setDisabled(false);
+					}
+				}));
 
-		// Ollama Connection Settings
-		new Setting(containerEl).setName('Ollama Connection').setHeading();
+		new Setting(containerEl)
+			.setName('Request timeout')
+			.setDesc('Seconds to wait for the server to start responding before giving up. Generations count as started with their first token. 0 waits forever.')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.requestTimeout))
+				.setValue(String(this.plugin.settings.requestTimeout))
+				.onChange(async (value) => {
+					const timeout = parseInt(value, 10);
+					if (!isNaN(timeout) && timeout >= 0) {
+						this.plugin.settings.requestTimeout = timeout;
+						await this.plugin.saveSettings();
+						this.plugin.updateLLMService();
+					}
+				}));
 
 		new Setting(containerEl)
-			.setName('Ollama Host')
-			.setDesc('The URL of your Ollama instance (including protocol and port)')
+			.setName('Retries')
+			.setDesc('How often a request is retried, with increasing delays, when the server is unreachable or reports an error, e.g. while it starts or loads a model')
 			.addText(text => text
-				.setPlaceholder('http://localhost:11434')
-				.setValue(this.plugin.settings.ollamaHost)
+				.setPlaceholder(String(DEFAULT_SETTINGS.maxRetries))
+				.setValue(String(this.plugin.settings.maxRetries))
+				.onChange(async (value) => {
+					const retries = parseInt(value, 10);
+					if (!isNaN(retries) && retries >= 0) {
+						this.plugin.settings.maxRetries = retries;
+						await this.plugin.saveSettings();
+						this.plugin.updateLLMService();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Show connection status')
+			.setDesc('Show in the status bar whether the server is reachable')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showConnectionStatus)
 				.onChange(async (value) => {
-					this.plugin.settings.ollamaHost = value;
+					this.plugin.settings.showConnectionStatus = value;
 					await this.plugin.saveSettings();
-					// Update the Ollama service with the new host
-					this.plugin.updateOllamaService();
-					// Refresh available models
-					await this.loadAvailableModels();
+					this.plugin.refreshConnectionStatus();
 				}));
 
 		// Model Settings
@@ -554,25 +6802,37 @@ class OllamaSettingTab extends PluginSettingTab {
 
 		const modelSetting = new Setting(containerEl)
 			.setName('Default Model')
-			.setDesc('The default Ollama model to use for processing transcripts');
+			.setDesc('The default model to use for processing transcripts');
 
 		// Try to load available models
 		try {
 			await this.loadAvailableModels();
 
 			if (this.availableModels.length > 0) {
+				const isInstalled = this.availableModels.includes(this.plugin.settings.defaultModel);
 				modelSetting.addDropdown(dropdown => {
 					// Add all available models to the dropdown
 					this.availableModels.forEach(model => {
 						dropdown.addOption(model, model);
 					});
+					if (!isInstalled) {
+						dropdown.addOption(this.plugin.settings.defaultModel, `${this.plugin.settings.defaultModel} (not installed)`);
+					}
 
 					dropdown.setValue(this.plugin.settings.defaultModel)
 						.onChange(async (value) => {
 							this.plugin.settings.defaultModel = value;
 							await this.plugin.saveSettings();
+							this.display(); // Update the installation warning
 						});
 				});
+
+				if (!isInstalled) {
+					modelSetting.descEl.createDiv({
+						text: `The default model "${this.plugin.settings.defaultModel}" is not installed. Pull it below or choose another model.`,
+						cls: 'mod-warning'
+					});
+				}
 			} else {
 				modelSetting.addText(text => text
 					.setPlaceholder('gemma:3b')
@@ -584,8 +6844,8 @@ class OllamaSettingTab extends PluginSettingTab {
 			}
 		} catch (error) {
 			// If we can't load models, fall back to a text input
-			new Notice("Could not connect to Ollama. Please check your connection settings.");
-			console.error("Error loading Ollama models:", error);
+			new Notice("Could not connect to the model server. Please check your connection settings.");
+			console.error("Error loading models:", error);
 
 			modelSetting.addText(text => text
 				.setPlaceholder('gemma:3b')
@@ -596,9 +6856,262 @@ class OllamaSettingTab extends PluginSettingTab {
 				}));
 		}
 
+		// Model management is only available for Ollama
+		const service = this.plugin.llmService;
+		if (service instanceof OllamaService) {
+			this.renderModelManagement(containerEl, service);
+		}
+
+		// Redaction
+		new Setting(containerEl).setName('Redaction').setHeading();
+		containerEl.createEl('p', {
+			text: 'Replace personal data with placeholders such as [NAME_1] before text is sent to the model, and put the original values back into the response. Use the "Preview redaction of current note" command to check what is replaced.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Redact personal data')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.redactionEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.redactionEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		(Object.keys(REDACTION_CATEGORIES) as RedactionCategory[]).forEach(category => {
+			new Setting(containerEl)
+				.setName(REDACTION_CATEGORIES[category])
+				.setDesc(category === 'name' ? 'The names listed below' : '')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.redactionCategories.includes(category))
+					.onChange(async (value) => {
+						const categories = this.plugin.settings.redactionCategories.filter(c => c !== category);
+						this.plugin.settings.redactionCategories = value ? [...categories, category] : categories;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName('Names to redact')
+			.setDesc('One name per line, e.g. the full name and the first name of each person. Names are matched regardless of case.')
+			.addTextArea(text => text
+				.setPlaceholder('Alice Smith\nAlice')
+				.setValue(this.plugin.settings.redactedNames.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.redactedNames = value.split('\n').map(name => name.trim()).filter(name => name.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		// Generation Settings
+		new Setting(containerEl).setName('Generation').setHeading();
+
+		new Setting(containerEl)
+			.setName('Stream responses')
+			.setDesc('Write the response into the note token by token as it is generated')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.streamResponses)
+				.onChange(async (value) => {
+					this.plugin.settings.streamResponses = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Keep partial output on cancel')
+			.setDesc('When a streamed generation is cancelled, keep the text written so far instead of restoring the original note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.keepPartialOnCancel)
+				.onChange(async (value) => {
+					this.plugin.settings.keepPartialOnCancel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('New note folder')
+			.setDesc('Folder for notes created by prompts that write to a new note. Leave empty to use the folder of the source note.')
+			.addText(text => text
+				.setPlaceholder('AI Notes')
+				.setValue(this.plugin.settings.newNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.newNoteFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Long Text Settings
+		new Setting(containerEl).setName('Long texts').setHeading();
+
+		new Setting(containerEl)
+			.setName('Clean up transcript exports')
+			.setDesc('Detect WebVTT and SRT captions and Zoom, Teams and Otter exports, and send them to the model as compact speaker turns without cue numbers and timestamps. The note keeps the original text.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.normalizeTranscripts)
+				.onChange(async (value) => {
+					this.plugin.settings.normalizeTranscripts = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Split long texts into chunks')
+			.setDesc("When the text does not fit into the model's context window, process it in parts and combine the results")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.chunkingEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.chunkingEnabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Chunk size')
+			.setDesc('Maximum size of each part in tokens. Parts are also limited to half of the context window.')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.chunkSize))
+				.setValue(String(this.plugin.settings.chunkSize))
+				.onChange(async (value) => {
+					const size = parseInt(value, 10);
+					if (!isNaN(size) && size > 0) {
+						this.plugin.settings.chunkSize = size;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Chunk overlap')
+			.setDesc('Number of tokens repeated from the end of one part at the start of the next')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS.chunkOverlap))
+				.setValue(String(this.plugin.settings.chunkOverlap))
+				.onChange(async (value) => {
+					const overlap = parseInt(value, 10);
+					if (!isNaN(overlap) && overlap >= 0) {
+						this.plugin.settings.chunkOverlap = overlap;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Combine prompt')
+			.setDesc('Instructions used to merge the results of all parts into the final notes')
+			.addTextArea(text => text
+				.setValue(this.plugin.settings.combinePrompt)
+				.onChange(async (value) => {
+					this.plugin.settings.combinePrompt = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Watch folders
+		new Setting(containerEl).setName('Automatic processing').setHeading();
+		containerEl.createEl('p', {
+			text: `Process notes in the background when they are created or modified and match a rule. A rule matches notes that meet all of its conditions: in the folder, with the tag, and with the frontmatter property set to true. Processed notes are marked with the "${WATCH_PROCESSED_PROPERTY}" property and not processed again by the same rule.`,
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Process matching notes automatically')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.watchEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.watchEnabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Show log')
+				.onClick(() => {
+					new WatchLogModal(this.app, this.plugin).open();
+				}));
+
+		const rulesContainer = containerEl.createDiv({cls: 'watch-rules'});
+		this.renderWatchRules(rulesContainer);
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					const firstPrompt = this.plugin.getPrompts()[0];
+					if (!firstPrompt) {
+						new Notice('Create a prompt first');
+						return;
+					}
+					this.plugin.settings.watchRules.push({
+						id: Date.now().toString(),
+						folder: '',
+						tag: '',
+						property: '',
+						promptId: firstPrompt.id,
+						enabled: true
+					});
+					await this.plugin.saveSettings();
+					this.renderWatchRules(rulesContainer);
+				}));
+
+		// Semantic search
+		new Setting(containerEl).setName('Semantic search').setHeading();
+		containerEl.createEl('p', {
+			text: 'An index of embeddings of your notes powers the "Find related notes" command and prompts that add related notes as context. It is stored in the plugin folder and only changed notes are embedded again.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Embedding model')
+			.setDesc('Model used to embed notes, e.g. nomic-embed-text. Changing it rebuilds the index on the next update.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.embeddingModel)
+				.setValue(this.plugin.settings.embeddingModel)
+				.onChange(async (value) => {
+					this.plugin.settings.embeddingModel = value.trim() || DEFAULT_SETTINGS.embeddingModel;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Excluded folders')
+			.setDesc('One folder per line. Notes in these folders and the prompt library are not indexed.')
+			.addTextArea(text => text
+				.setPlaceholder('Templates\nArchive/Private')
+				.setValue(this.plugin.settings.indexExcludedFolders.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.indexExcludedFolders = value.split('\n').map(folder => folder.trim()).filter(folder => folder.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Keep the index up to date')
+			.setDesc('Embed new and modified notes in the background')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoUpdateIndex)
+				.onChange(async (value) => {
+					this.plugin.settings.autoUpdateIndex = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Update index')
+			.setDesc(`${this.plugin.embeddingIndex.noteCount} notes indexed`)
+			.addButton(button => button
+				.setButtonText('Update')
+				.onClick(async () => {
+					await this.plugin.updateIndex(true);
+					this.display(); // Show the new number of notes
+				}));
+
 		// Prompt Management
 		new Setting(containerEl).setName('Prompt Management').setHeading();
 
+		new Setting(containerEl)
+			.setName('Prompt library folder')
+			.setDesc('Optional. When set, prompts are stored as notes in this folder, with the prompt as content and its name, model and other settings in the frontmatter. Use the "Move prompts to the prompt library folder" command to write the existing prompts to it.')
+			.addText(text => text
+				.setPlaceholder('Prompts')
+				.setValue(this.plugin.settings.promptFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.promptFolder = value.trim();
+					await this.plugin.saveSettings();
+					reloadPromptLibrary();
+				}));
+
+		// Loading the library re-registers the prompt commands, so it waits until the folder path has been typed
+		const reloadPromptLibrary = debounce(async () => {
+			await this.plugin.loadPromptLibrary();
+			this.renderPromptsList(promptsContainer);
+		}, 1000, true);
+
 		// Display existing prompts
 		const promptsContainer = containerEl.createDiv({cls: 'prompts-container'});
 		this.renderPromptsList(promptsContainer);
@@ -614,9 +7127,33 @@ class OllamaSettingTab extends PluginSettingTab {
 						name: "New prompt",
 						body: ""
 					};
-					new PromptEditModal(this.app, this.plugin, newPrompt, (createdPrompt) => {
-						this.plugin.settings.prompts.push(createdPrompt);
-						this.plugin.saveSettings();
+					new PromptEditModal(this.app, this.plugin, newPrompt, async (createdPrompt) => {
+						await this.plugin.savePrompt(createdPrompt);
+						this.display(); // Refresh the settings tab
+					}).open();
+				}));
+
+		// Pipeline Management
+		new Setting(containerEl).setName('Pipelines').setHeading();
+		containerEl.createEl('p', {
+			text: 'Pipelines run several prompts one after another, e.g. clean up a transcript, summarize it and extract action items. They can be selected like prompts.',
+			cls: 'setting-item-description'
+		});
+
+		const pipelinesContainer = containerEl.createDiv({cls: 'prompts-container'});
+		this.renderPipelinesList(pipelinesContainer);
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add new pipeline')
+				.onClick(() => {
+					const newPipeline: Pipeline = {
+						id: Date.now().toString(),
+						name: "New pipeline",
+						steps: []
+					};
+					new PipelineEditModal(this.app, this.plugin, newPipeline, async (createdPipeline) => {
+						await this.plugin.savePipeline(createdPipeline);
 						this.display(); // Refresh the settings tab
 					}).open();
 				}));
@@ -642,7 +7179,8 @@ class OllamaSettingTab extends PluginSettingTab {
 	private renderPromptsList(container: HTMLElement): void {
 		container.empty();
 
-		if (this.plugin.settings.prompts.length === 0) {
+		const prompts = this.plugin.getPrompts();
+		if (prompts.length === 0) {
 			container.createEl('p', {text: 'No prompts created yet. Click "Add new prompt" to create one.'});
 			return;
 		}
@@ -656,9 +7194,9 @@ class OllamaSettingTab extends PluginSettingTab {
 
 		const tbody = table.createEl('tbody');
 
-		this.plugin.settings.prompts.forEach(prompt => {
+		prompts.forEach(prompt => {
 			const row = tbody.createEl('tr');
-			row.createEl('td', {text: prompt.name});
+			row.createEl('td', {text: prompt.favorite ? `★ ${prompt.name}` : prompt.name});
 
 			const actionsCell = row.createEl('td');
 			const actionsContainer = actionsCell.createDiv({cls: 'prompt-actions'});
@@ -667,23 +7205,18 @@ class OllamaSettingTab extends PluginSettingTab {
 			const editButton = new ButtonComponent(actionsContainer)
 				.setButtonText('Edit')
 				.onClick(() => {
-					new PromptEditModal(this.app, this.plugin, prompt, (updatedPrompt) => {
-						const index = this.plugin.settings.prompts.findIndex(p => p.id === updatedPrompt.id);
-						if (index !== -1) {
-							this.plugin.settings.prompts[index] = updatedPrompt;
-							this.plugin.saveSettings();
-							this.display(); // Refresh the settings tab
-						}
+					new PromptEditModal(this.app, this.plugin, prompt, async (updatedPrompt) => {
+						await this.plugin.savePrompt(updatedPrompt);
+						this.display(); // Refresh the settings tab
 					}).open();
 				});
 
 			// Delete button
 			const deleteButton = new ButtonComponent(actionsContainer)
 				.setButtonText('Delete')
-				.onClick(() => {
+				.onClick(async () => {
 					if (confirm(`Are you sure you want to delete the prompt "${prompt.name}"?`)) {
-						this.plugin.settings.prompts = this.plugin.settings.prompts.filter(p => p.id !== prompt.id);
-						this.plugin.saveSettings();
+						await this.plugin.deletePrompt(prompt.id);
 						this.display(); // Refresh the settings tab
 					}
 				});
@@ -693,17 +7226,253 @@ class OllamaSettingTab extends PluginSettingTab {
 		});
 	}
 
+	private renderWatchRules(container: HTMLElement): void {
+		container.empty();
+
+		if (this.plugin.settings.watchRules.length === 0) {
+			container.createEl('p', {text: 'No rules yet. Click "Add rule" to create one.'});
+			return;
+		}
+
+		const items = [...this.plugin.getPrompts(), ...this.plugin.settings.pipelines];
+		this.plugin.settings.watchRules.forEach((rule, index) => {
+			new Setting(container)
+				.setName(`Rule ${index + 1}`)
+				.setClass('watch-rule')
+				.addText(text => text
+					.setPlaceholder('Folder')
+					.setValue(rule.folder)
+					.onChange(async (value) => {
+						rule.folder = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Tag')
+					.setValue(rule.tag)
+					.onChange(async (value) => {
+						rule.tag = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Property')
+					.setValue(rule.property)
+					.onChange(async (value) => {
+						rule.property = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					items.forEach(item => {
+						dropdown.addOption(item.id, isPipeline(item) ? `${item.name} (pipeline)` : item.name);
+					});
+					if (!items.some(item => item.id === rule.promptId)) {
+						dropdown.addOption(rule.promptId, '(deleted prompt)');
+					}
+					dropdown.setValue(rule.promptId)
+						.onChange(async (value) => {
+							rule.promptId = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						this.plugin.settings.watchRules = this.plugin.settings.watchRules.filter(r => r.id !== rule.id);
+						await this.plugin.saveSettings();
+						this.renderWatchRules(container);
+					}));
+		});
+	}
+
+	private renderModelManagement(containerEl: HTMLElement, service: OllamaService): void {
+		new Setting(containerEl).setName('Installed models').setHeading();
+
+		const modelsContainer = containerEl.createDiv({cls: 'prompts-container'});
+		modelsContainer.createEl('p', {text: 'Loading models...'});
+
+		service.listModels()
+			.then(models => this.renderModelsTable(modelsContainer, service, models))
+			.catch(() => {
+				modelsContainer.empty();
+				modelsContainer.createEl('p', {text: 'Could not load the installed models.'});
+			});
+
+		// Pull a new model with a live progress bar
+		let modelName = '';
+		let pullController: AbortController | null = null;
+		const pullSetting = new Setting(containerEl)
+			.setName('Pull a model')
+			.setDesc('Download a model from the Ollama library by name, e.g. llama3.2:3b')
+			.addText(text => text
+				.setPlaceholder('llama3.2:3b')
+				.onChange(value => {
+					modelName = value.trim();
+				}));
+
+		const progressEl = containerEl.createDiv({cls: 'model-pull-progress'});
+		progressEl.hide();
+		const progressBar = progressEl.createEl('progress');
+		const progressText = progressEl.createDiv({cls: 'setting-item-description'});
+
+		pullSetting.addButton(button => button
+			.setButtonText('Pull')
+			.onClick(async () => {
+				if (pullController) {
+					pullController.abort();
+					return;
+				}
+				if (!modelName) {
+					new Notice('Enter the name of the model to pull');
+					return;
+				}
+
+				pullController = new AbortController();
+				button.setButtonText('Cancel');
+				progressEl.show();
+				progressBar.removeAttribute('value');
+				progressText.setText('Starting download...');
+
+				try {
+					await service.pullModel(modelName, (status) => {
+						if (status.total && status.completed !== undefined) {
+							progressBar.max = status.total;
+							progressBar.value = status.completed;
+							progressText.setText(`${status.status}: ${formatBytes(status.completed)} of ${formatBytes(status.total)}`);
+						} else {
+							progressBar.removeAttribute('value');
+							progressText.setText(status.status);
+						}
+					}, pullController.signal);
+					new Notice(`Model ${modelName} pulled successfully`);
+					this.display(); // Refresh the list of models
+				} catch (error) {
+					progressText.setText(isAbortError(error) ? 'Download cancelled' : `Error: ${(error as Error).message}`);
+				} finally {
+					pullController = null;
+					button.setButtonText('Pull');
+				}
+			}));
+	}
+
+	private renderModelsTable(container: HTMLElement, service: OllamaService, models: OllamaModel[]): void {
+		container.empty();
+
+		if (models.length === 0) {
+			container.createEl('p', {text: 'No models installed yet. Pull one below.'});
+			return;
+		}
+
+		const table = container.createEl('table', {cls: 'prompts-table'});
+		const headerRow = table.createEl('thead').createEl('tr');
+		['Name', 'Size', 'Family', 'Quantization', 'Context', 'Actions'].forEach(title => {
+			headerRow.createEl('th', {text: title});
+		});
+
+		const tbody = table.createEl('tbody');
+		models.forEach(model => {
+			const row = tbody.createEl('tr');
+			row.createEl('td', {text: model.name});
+			row.createEl('td', {text: formatBytes(model.size)});
+			row.createEl('td', {
+				text: [model.details?.family, model.details?.parameter_size].filter(Boolean).join(' ') || '-'
+			});
+			row.createEl('td', {text: model.details?.quantization_level || '-'});
+
+			// The context length comes from /api/show, so it is filled in once it has loaded
+			const contextCell = row.createEl('td', {text: '...'});
+			service.getMaxContextLength(model.name)
+				.then(contextLength => contextCell.setText(contextLength ? contextLength.toLocaleString() : '-'))
+				.catch(() => contextCell.setText('-'));
+
+			const actionsContainer = row.createEl('td').createDiv({cls: 'prompt-actions'});
+			new ButtonComponent(actionsContainer)
+				.setButtonText('Delete')
+				.setWarning()
+				.onClick(async () => {
+					if (!confirm(`Are you sure you want to delete the model "${model.name}"?`)) {
+						return;
+					}
+					try {
+						await service.deleteModel(model.name);
+						new Notice(`Model ${model.name} deleted`);
+						this.display(); // Refresh the list of models
+					} catch (error) {
+						new Notice(`Failed to delete model: ${(error as Error).message}`);
+					}
+				});
+		});
+	}
+
+	private renderPipelinesList(container: HTMLElement): void {
+		container.empty();
+
+		if (this.plugin.settings.pipelines.length === 0) {
+			container.createEl('p', {text: 'No pipelines created yet. Click "Add new pipeline" to create one.'});
+			return;
+		}
+
+		const table = container.createEl('table', {cls: 'prompts-table'});
+		const headerRow = table.createEl('thead').createEl('tr');
+		headerRow.createEl('th', {text: 'Name'});
+		headerRow.createEl('th', {text: 'Steps'});
+		headerRow.createEl('th', {text: 'Actions'});
+
+		const tbody = table.createEl('tbody');
+
+		this.plugin.settings.pipelines.forEach(pipeline => {
+			const row = tbody.createEl('tr');
+			row.createEl('td', {text: pipeline.name});
+			row.createEl('td', {
+				text: pipeline.steps
+					.map(step => this.plugin.getPrompts().find(p => p.id === step.promptId)?.name || '(deleted prompt)')
+					.join(' → ')
+			});
+
+			const actionsContainer = row.createEl('td').createDiv({cls: 'prompt-actions'});
+
+			new ButtonComponent(actionsContainer)
+				.setButtonText('Edit')
+				.onClick(() => {
+					new PipelineEditModal(this.app, this.plugin, pipeline, async (updatedPipeline) => {
+						await this.plugin.savePipeline(updatedPipeline);
+						this.display(); // Refresh the settings tab
+					}).open();
+				});
+
+			new ButtonComponent(actionsContainer)
+				.setButtonText('Delete')
+				.onClick(async () => {
+					if (confirm(`Are you sure you want to delete the pipeline "${pipeline.name}"?`)) {
+						await this.plugin.deletePipeline(pipeline.id);
+						this.display(); // Refresh the settings tab
+					}
+				});
+		});
+	}
+
 	private async loadAvailableModels(): Promise<void> {
+		const request = ++this.modelRequests;
+		let models: string[];
 		try {
-			this.availableModels = await this.plugin.ollamaService.getModels();
+			models = await this.plugin.llmService.getModels(false);
 		} catch (error) {
-			this.availableModels = [];
+			models = [];
 			console.error("Error loading models:", error);
 		}
+		if (request === this.modelRequests) {
+			this.availableModels = models;
+		}
 	}
 
 	private exportPrompts(): void {
-		const promptsJson = JSON.stringify(this.plugin.settings.prompts, null, 2);
+		const promptsJson = JSON.stringify(this.plugin.getPrompts(), null, 2);
 		const blob = new Blob([promptsJson], {type: 'application/json'});
 		const url = URL.createObjectURL(blob);
 
@@ -737,29 +7506,29 @@ class OllamaSettingTab extends PluginSettingTab {
 						throw new Error("Invalid format: Expected an array of prompts");
 					}
 
-					for (const prompt of importedPrompts) {
-						if (!prompt.id || !prompt.name || !prompt.body) {
-							throw new Error("Invalid prompt format: Each prompt must have id, name, and body properties");
-						}
-					}
+					importedPrompts.forEach(validatePrompt);
 
 					// Ask user if they want to replace or merge
 					const shouldReplace = confirm("Do you want to replace all existing prompts? Click 'OK' to replace, or 'Cancel' to merge with existing prompts.");
 
+					const importedIds = new Set(importedPrompts.map(p => p.id));
+					const existingIds = new Set(this.plugin.getPrompts().map(p => p.id));
 					if (shouldReplace) {
-						this.plugin.settings.prompts = importedPrompts;
-					} else {
-						// Merge prompts, avoiding duplicates by ID
-						const existingIds = new Set(this.plugin.settings.prompts.map(p => p.id));
-						for (const prompt of importedPrompts) {
-							if (!existingIds.has(prompt.id)) {
-								this.plugin.settings.prompts.push(prompt);
-								existingIds.add(prompt.id);
+						for (const prompt of this.plugin.getPrompts()) {
+							if (!importedIds.has(prompt.id)) {
+								await this.plugin.deletePrompt(prompt.id);
 							}
 						}
 					}
 
-					await this.plugin.saveSettings();
+					// When merging, prompts with an existing ID are skipped
+					for (const prompt of importedPrompts) {
+						if (shouldReplace || !existingIds.has(prompt.id)) {
+							await this.plugin.savePrompt(prompt);
+							existingIds.add(prompt.id);
+						}
+					}
+
 					this.display(); // Refresh the settings tab
 					new Notice("Prompts imported successfully");
 				} catch (error) {